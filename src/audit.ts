@@ -0,0 +1,246 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { SessionInfo, TerminalBackend } from './backends/index.js';
+import { logMessage } from './logging.js';
+import { createRedactor, Redactor, redactValue } from './redaction.js';
+
+// ==================================================
+// Audit Log
+// ==================================================
+
+export const DEFAULT_AUDIT_FILE = path.join('/tmp', 'mcp-iterm-audit.jsonl');
+
+// Rotated once it would grow past this many bytes
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+
+// Rotated files kept next to the log, as <file>.1 (newest) to <file>.<keep>
+const DEFAULT_KEEP = 5;
+
+export interface AuditConfig {
+  file?: string;
+  maxSize?: number;
+  keep?: number;
+}
+
+// One line of the log: a tool call and what it did to the terminal
+export interface AuditEntry {
+  // When the call started
+  timestamp: string;
+  // The tool called, or for background entries what the server did, e.g.
+  // "supervisor:restart"
+  tool: string;
+  args: Record<string, unknown>;
+  // The session the call typed into, or else the first one it used
+  session?: string;
+  // Text typed and keys sent, in order
+  input: { session: string, text: string }[];
+  // Of the marked command the call started, if any
+  marker?: string;
+  exitCode?: number;
+  durationMs: number;
+  // Characters of text returned to the client; 0 when the call threw
+  resultSize: number;
+  // How many secrets were masked in the arguments and input above
+  redacted?: number;
+  // Typed by the server on its own, not by a tool call, so not replayed
+  background?: true;
+}
+
+export interface AuditLog {
+  readonly file: string;
+  // The backend to hand to the tool handlers, which notes what they do to
+  // sessions during a tracked call
+  wrap(backend: TerminalBackend): TerminalBackend;
+  // Runs a tool call and appends its entry. exitCodeOf looks up how the marked
+  // command it started ended, if it did by the time the call returns.
+  track<T extends { content: { text?: string }[] }>(
+    tool: string,
+    args: Record<string, unknown> | undefined,
+    run: () => Promise<T>,
+    exitCodeOf?: (marker: string) => number | undefined
+  ): Promise<T>;
+  // Runs something the server does outside any tool call, like a supervised
+  // command being restarted, and appends it as a background entry
+  record(action: string, args: Record<string, unknown>, run: () => Promise<void>): Promise<void>;
+}
+
+// What a call did so far; kept per call, since calls run concurrently
+interface CallTrace {
+  sessions: string[];
+  input: { session: string, text: string }[];
+}
+
+const MARKER_PATTERN = /(===[0-9a-f]+-\d+===)-START/;
+
+// Checks the audit settings from the config file; throws on malformed ones.
+// Secrets in the arguments and typed text are masked with the redactor.
+export function createAuditLog(config: AuditConfig = {}, redactor: Redactor = createRedactor()): AuditLog {
+  const { file = DEFAULT_AUDIT_FILE, maxSize = DEFAULT_MAX_SIZE, keep = DEFAULT_KEEP } = config;
+  if (typeof file !== 'string' || file.trim() === '') {
+    throw new Error("audit.file must be a non-empty string");
+  }
+  if (typeof maxSize !== 'number' || maxSize <= 0) {
+    throw new Error("audit.maxSize must be a positive number of bytes");
+  }
+  if (typeof keep !== 'number' || keep < 0 || !Number.isInteger(keep)) {
+    throw new Error("audit.keep must be a non-negative integer");
+  }
+  const traces = new AsyncLocalStorage<CallTrace>();
+
+  const rotate = () => {
+    fs.rmSync(`${file}.${keep}`, { force: true });
+    for (let n = keep - 1; n >= 1; n--) {
+      if (fs.existsSync(`${file}.${n}`)) {
+        fs.renameSync(`${file}.${n}`, `${file}.${n + 1}`);
+      }
+    }
+    if (keep > 0) {
+      fs.renameSync(file, `${file}.1`);
+    } else {
+      fs.rmSync(file, { force: true });
+    }
+  };
+
+  const append = (recorded: AuditEntry) => {
+    const { value: entry, count } = redactValue(redactor, recorded);
+    if (count > 0) {
+      entry.redacted = count;
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    try {
+      fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+      const size = fs.statSync(file, { throwIfNoEntry: false })?.size ?? 0;
+      if (size > 0 && size + Buffer.byteLength(line) > maxSize) {
+        rotate();
+      }
+      fs.appendFileSync(file, line, 'utf8');
+    } catch (error: any) {
+      // The call itself went through; losing its entry is logged instead
+      logMessage(`Warning: Could not write to audit log ${file}: ${error.message}`);
+    }
+  };
+
+  const used = (sessionId: string) => {
+    const trace = traces.getStore();
+    if (trace && !trace.sessions.includes(sessionId)) {
+      trace.sessions.push(sessionId);
+    }
+  };
+  const typed = (sessionId: string, text: string) => {
+    used(sessionId);
+    traces.getStore()?.input.push({ session: sessionId, text });
+  };
+  const opened = async (session: Promise<SessionInfo>) => {
+    const info = await session;
+    used(info.id);
+    return info;
+  };
+
+  // Runs a call or background action in its own trace and appends its entry
+  const traced = async <T extends { content: { text?: string }[] }>(
+    tool: string,
+    args: Record<string, unknown> | undefined,
+    run: () => Promise<T>,
+    exitCodeOf?: (marker: string) => number | undefined,
+    background = false
+  ) => {
+    const trace: CallTrace = { sessions: [], input: [] };
+    const startedAt = new Date();
+    let resultSize = 0;
+    try {
+      const result = await traces.run(trace, run);
+      resultSize = result.content.reduce((size, item) => size + (item.text?.length ?? 0), 0);
+      return result;
+    } finally {
+      const marker = trace.input.map(({ text }) => text.match(MARKER_PATTERN)?.[1]).find(Boolean);
+      const exitCode = marker !== undefined ? exitCodeOf?.(marker) : undefined;
+      append({
+        timestamp: startedAt.toISOString(),
+        tool,
+        args: args ?? {},
+        ...(trace.sessions.length > 0 ? { session: trace.input[0]?.session ?? trace.sessions[0] } : {}),
+        input: trace.input,
+        ...(marker !== undefined ? { marker } : {}),
+        ...(exitCode !== undefined ? { exitCode } : {}),
+        durationMs: Date.now() - startedAt.getTime(),
+        resultSize,
+        ...(background ? { background: true } : {})
+      });
+    }
+  };
+
+  return {
+    file,
+
+    wrap(backend) {
+      return {
+        name: backend.name,
+        foreignSessions: backend.foreignSessions,
+        listSessions: () => backend.listSessions(),
+        createSession: options => opened(backend.createSession(options)),
+        createWindow: options => opened(backend.createWindow(options)),
+        splitSession: (sessionId, direction, options) => {
+          used(sessionId);
+          return opened(backend.splitSession(sessionId, direction, options));
+        },
+        focusSession: sessionId => {
+          used(sessionId);
+          return backend.focusSession(sessionId);
+        },
+        enableShellIntegration: sessionId => {
+          typed(sessionId, "(shell integration hooks)");
+          return backend.enableShellIntegration(sessionId);
+        },
+        renameSession: (sessionId, name) => {
+          used(sessionId);
+          return backend.renameSession(sessionId, name);
+        },
+        writeText: (sessionId, text) => {
+          typed(sessionId, text);
+          return backend.writeText(sessionId, text);
+        },
+        readContents: sessionId => {
+          used(sessionId);
+          return backend.readContents(sessionId);
+        },
+        sendKeys: (sessionId, keys) => {
+          typed(sessionId, keys);
+          return backend.sendKeys(sessionId, keys);
+        },
+        closeSession: sessionId => {
+          used(sessionId);
+          return backend.closeSession(sessionId);
+        }
+      };
+    },
+
+    track: (tool, args, run, exitCodeOf) => traced(tool, args, run, exitCodeOf),
+
+    async record(action, args, run) {
+      await traced(action, args, async () => {
+        await run();
+        return { content: [] };
+      }, undefined, true);
+    }
+  };
+}
+
+// Reads the entries of a log written by createAuditLog
+export function readAuditLog(file: string): AuditEntry[] {
+  return fs.readFileSync(file, 'utf8').split("\n").flatMap((line, index) => {
+    if (line.trim() === '') {
+      return [];
+    }
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (error: any) {
+      throw new Error(`line ${index + 1} is not valid JSON: ${error.message}`);
+    }
+    if (typeof entry !== 'object' || entry === null || typeof entry.tool !== 'string') {
+      throw new Error(`line ${index + 1} is not an audit entry`);
+    }
+    return [{ ...entry, args: entry.args ?? {} }];
+  });
+}
@@ -0,0 +1,359 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import type { CreateSessionOptions, SessionInfo, TerminalBackend } from './types.js';
+import { quoteForShell } from './shell.js';
+import { commandStateFrom, shellIntegrationScript } from './shell-integration.js';
+
+const execPromise = promisify(exec);
+
+// ==================================================
+// AppleScript Execution
+// ==================================================
+async function runAppleScript(script: string, timeoutMs = 10000, retries = 2): Promise<string> {
+  return new Promise(async (resolve, reject) => {
+    const executeWithRetry = async (remainingRetries: number) => {
+      const timeoutId = setTimeout(() => {
+        clearTimeout(timeoutId);
+        if (remainingRetries > 0) {
+          console.error(`AppleScript execution timed out, retrying (${remainingRetries} attempts left)...`);
+          executeWithRetry(remainingRetries - 1);
+        } else {
+          reject(new Error(`AppleScript execution timed out after ${timeoutMs}ms and ${retries} retries`));
+        }
+      }, timeoutMs);
+
+      try {
+        // Fix: Properly escape single quotes for shell execution
+        const escapedScript = script.replace(/'/g, "'\"'\"'");
+        const { stdout } = await execPromise(`osascript -e '${escapedScript}'`);
+        clearTimeout(timeoutId);
+        resolve(stdout.trim());
+      } catch (error: any) {
+        clearTimeout(timeoutId);
+
+        // Check if iTerm2 is not running or not responsive
+        if (error.message.includes('No such app') ||
+            error.message.includes('connection is invalid') ||
+            error.message.includes('not running')) {
+          if (remainingRetries > 0) {
+            console.error(`iTerm2 access error, retrying (${remainingRetries} attempts left): ${error.message}`);
+            await new Promise(r => setTimeout(r, 500)); // Small delay before retry
+            executeWithRetry(remainingRetries - 1);
+          } else {
+            reject(new Error(`iTerm2 unavailable after ${retries} retries: ${error.message}`));
+          }
+        } else {
+          reject(new Error(`AppleScript execution failed: ${error.message}`));
+        }
+      }
+    };
+
+    executeWithRetry(retries);
+  });
+}
+
+function escapeForAppleScript(str: any): string {
+  if (typeof str !== 'string') {
+    return JSON.stringify(str);
+  }
+  // Escape for AppleScript string literals
+  // In AppleScript, single quotes are escaped by doubling them
+  return str
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/'/g, "''")  // Fix: Double single quotes for AppleScript
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+// ==================================================
+// AppleScript Helpers
+// ==================================================
+const AS_HELPERS: any = {};
+
+const NAME_VARIABLE = "user.mcpName";
+const OPENED_VARIABLE = "user.mcpOpened";
+
+// Base AppleScript with common error checking
+AS_HELPERS.baseApplicationScript = `
+tell application "iTerm2"
+    if application "iTerm2" is not running then
+        error "iTerm2 is not running"
+    end if
+`;
+
+// Same, for scripts that need at least one window
+AS_HELPERS.baseITermScript = `
+${AS_HELPERS.baseApplicationScript}
+    set numWindows to count of windows
+    if numWindows is 0 then
+        error "No iTerm2 windows are open"
+    end if
+`;
+
+// Field separator for multi-value results; tab names may contain anything else
+AS_HELPERS.separator = `set sep to ASCII character 9`;
+
+// Lists every pane of every tab of every window as "window id, tab index, pane index,
+// session id, active, columns, rows, running, state, exit code, command, opened,
+// directory, name" lines. Running state is a guess (a last line ending in a prompt
+// character means idle) unless the prompt hooks report it through user variables.
+// Names given through the server are kept in a user variable too, since the
+// session name iTerm2 reports can change with the running job, and so is whether
+// the server opened the session.
+AS_HELPERS.listTabs = `
+${AS_HELPERS.baseITermScript}
+    ${AS_HELPERS.separator}
+    set output to ""
+    repeat with w in windows
+        set windowId to id of w
+        set tabIndex to 0
+        repeat with t in tabs of w
+            set activeId to unique id of current session of t
+            set paneIndex to 0
+            repeat with s in sessions of t
+                set sessionId to unique id of s
+                set tabName to "Unknown"
+                try
+                    set tabName to name of s
+                end try
+                try
+                    tell s to set label to (variable named "${NAME_VARIABLE}")
+                    if label is not missing value and label is not "" then set tabName to label
+                end try
+                set hookState to ""
+                set hookExit to ""
+                set hookCommand to ""
+                try
+                    tell s
+                        set hookState to (variable named "user.mcpState")
+                        set hookExit to (variable named "user.mcpExit")
+                        set hookCommand to (variable named "user.mcpCommand")
+                    end tell
+                end try
+                if hookState is missing value then set hookState to ""
+                if hookExit is missing value then set hookExit to ""
+                if hookCommand is missing value then set hookCommand to ""
+                set opened to ""
+                try
+                    tell s to set opened to (variable named "${OPENED_VARIABLE}")
+                end try
+                if opened is missing value then set opened to ""
+                set sessionPath to ""
+                try
+                    tell s to set sessionPath to (variable named "session.path")
+                end try
+                if sessionPath is missing value then set sessionPath to ""
+                set hasPrompt to false
+                try
+                    set lastLine to last paragraph of (contents of s)
+                    set hasPrompt to lastLine ends with "%" or lastLine ends with "$" or lastLine ends with ">"
+                end try
+                set output to output & windowId & sep & tabIndex & sep & paneIndex & sep & sessionId & sep & (sessionId is activeId) & sep & (columns of s) & sep & (rows of s) & sep & (not hasPrompt) & sep & hookState & sep & hookExit & sep & hookCommand & sep & opened & sep & sessionPath & sep & tabName & linefeed
+                set paneIndex to paneIndex + 1
+            end repeat
+            set tabIndex to tabIndex + 1
+        end repeat
+    end repeat
+    return output
+end tell
+`;
+
+// Names a session both in the UI and in the variable listTabs reads
+AS_HELPERS.renameSession = (sessionId: string, name: string) => AS_HELPERS.sessionTemplate(sessionId, `
+                        set name to "${escapeForAppleScript(name)}"
+                        set variable named "${NAME_VARIABLE}" to "${escapeForAppleScript(name)}"`);
+
+// Marks a session the server opened, so a later run of the server does not take
+// it for one of the user's own
+AS_HELPERS.markOpened = (sessionId: string) => AS_HELPERS.sessionTemplate(sessionId, `
+                        set variable named "${OPENED_VARIABLE}" to "1"`);
+
+// Template for operations on the session with the given unique id, wherever it is
+AS_HELPERS.sessionTemplate = (sessionId: string, operation: string) => `
+${AS_HELPERS.baseITermScript}
+    repeat with w in windows
+        repeat with t in tabs of w
+            repeat with s in sessions of t
+                if (unique id of s) is "${escapeForAppleScript(sessionId)}" then
+                    tell s
+                        ${operation}
+                    end tell
+                    return
+                end if
+            end repeat
+        end repeat
+    end repeat
+    error "Session ${escapeForAppleScript(sessionId)} not found. It may have been closed."
+end tell
+`;
+
+// Sends text to a session; supports multi‑line commands via a temporary file
+AS_HELPERS.sendCommand = (sessionId: string, command: string) => {
+  if (command.includes("\n")) {
+    try {
+      const tmpFile = `/tmp/iterm_cmd_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.sh`;
+      fs.writeFileSync(tmpFile, command);
+      return AS_HELPERS.sessionTemplate(sessionId, `write text "source ${tmpFile} && rm ${tmpFile}"`);
+    } catch (err: any) {
+      // If we can't create a temp file, fall back to writing the command directly
+      console.error(`[iterm-mcp] Error creating temp file: ${err.message}`);
+      // For multi-line commands without temp file capability, we'll escape the newlines
+      const escapedCmd = command.replace(/\n/g, '; ');
+      return AS_HELPERS.sessionTemplate(sessionId, `write text "${escapeForAppleScript(escapedCmd)}"`);
+    }
+  }
+  return AS_HELPERS.sessionTemplate(sessionId, `write text "${escapeForAppleScript(command)}"`);
+};
+
+// Creates a new tab in a window and returns its session id
+AS_HELPERS.createNewTab = (windowId: string) => `
+${AS_HELPERS.baseITermScript}
+    tell window id ${windowId}
+        set newTab to (create tab with default profile)
+        return unique id of current session of newTab
+    end tell
+end tell
+`;
+
+// Creates a new window and returns the session id of its first tab
+AS_HELPERS.createNewWindow = `
+${AS_HELPERS.baseApplicationScript}
+    set newWindow to (create window with default profile)
+    return unique id of current session of newWindow
+end tell
+`;
+
+// Splits a session and returns the new session's id
+AS_HELPERS.splitSession = (sessionId: string, direction: string) => AS_HELPERS.sessionTemplate(sessionId, `
+                        set newSession to (split ${direction}ly with default profile)
+                        return unique id of newSession`);
+
+// Brings a session's tab to the front and focuses the session in it
+AS_HELPERS.focusSession = (sessionId: string) => AS_HELPERS.sessionTemplate(sessionId, `
+                        select
+                        tell t to select
+                        tell w to select`);
+
+// Sends raw characters, one `character id` per code point
+AS_HELPERS.sendKeys = (sessionId: string, keys: string) => {
+  const characters = Array.from(keys).map(ch => `(character id ${ch.codePointAt(0)})`).join(' & ');
+  return AS_HELPERS.sessionTemplate(sessionId, `write text ${characters}`);
+};
+
+// Parse listTabs output. AppleScript lists windows front to back, which changes
+// whenever one is focused, so windows are numbered by their id (creation order).
+function parseTabList(output: string): { windowIds: string[], sessions: SessionInfo[] } {
+  const rows = output.split('\n').filter(line => line.trim()).map(line => {
+    const [windowId, index, pane, id, active, columns, rows, isRunning, state, exitCode, command, opened, cwd, ...name] = line.split('\t');
+    const commandState = commandStateFrom(state, exitCode, command);
+    return {
+      windowId,
+      index: parseInt(index, 10),
+      pane: parseInt(pane, 10),
+      id,
+      active: active === 'true',
+      columns: parseInt(columns, 10),
+      rows: parseInt(rows, 10),
+      isRunning: commandState ? commandState.status === "running" : isRunning === 'true',
+      commandState,
+      openedByServer: opened === '1',
+      name: name.join('\t') || "Unknown",
+      cwd: cwd || undefined
+    };
+  });
+
+  const windowIds = [...new Set(rows.map(row => row.windowId))].sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+  const sessions = rows
+    .map(({ windowId, ...row }) => ({ ...row, window: windowIds.indexOf(windowId) }))
+    .sort((a, b) => a.window - b.window || a.index - b.index || a.pane - b.pane);
+
+  return { windowIds, sessions };
+}
+
+// ==================================================
+// Backend Implementation
+// ==================================================
+export function createAppleScriptBackend(): TerminalBackend {
+  const findSession = async (sessionId: string) => {
+    const { sessions } = parseTabList(await runAppleScript(AS_HELPERS.listTabs));
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found. It may have been closed.`);
+    }
+    return session;
+  };
+
+  // New tabs always start with the default profile, so the prompt hooks and a
+  // working directory are set up by typing into the fresh shell. The hook script
+  // spans several lines, so sendCommand sources it from a temporary file. The
+  // session is marked as opened by the server first.
+  const setUpSession = async (sessionId: string, { name, cwd }: CreateSessionOptions) => {
+    await runAppleScript(AS_HELPERS.markOpened(sessionId));
+    await runAppleScript(AS_HELPERS.sendCommand(sessionId, shellIntegrationScript("iterm")));
+    if (name) {
+      await runAppleScript(AS_HELPERS.renameSession(sessionId, name));
+    }
+    if (cwd) {
+      await runAppleScript(AS_HELPERS.sendCommand(sessionId, `cd ${quoteForShell(cwd)}`));
+    }
+    return findSession(sessionId);
+  };
+
+  return {
+    name: "iterm2",
+    foreignSessions: true,
+
+    async listSessions() {
+      return parseTabList(await runAppleScript(AS_HELPERS.listTabs)).sessions;
+    },
+
+    async createSession(options = {}) {
+      const window = options.window ?? 0;
+      const { windowIds } = parseTabList(await runAppleScript(AS_HELPERS.listTabs));
+      if (window >= windowIds.length) {
+        throw new Error(`Window ${window} does not exist. There are only ${windowIds.length} windows.`);
+      }
+      return setUpSession(await runAppleScript(AS_HELPERS.createNewTab(windowIds[window])), options);
+    },
+
+    async createWindow(options = {}) {
+      return setUpSession(await runAppleScript(AS_HELPERS.createNewWindow), options);
+    },
+
+    async splitSession(sessionId, direction, options = {}) {
+      return setUpSession(await runAppleScript(AS_HELPERS.splitSession(sessionId, direction)), options);
+    },
+
+    async focusSession(sessionId) {
+      await runAppleScript(AS_HELPERS.focusSession(sessionId));
+    },
+
+    async enableShellIntegration(sessionId) {
+      await runAppleScript(AS_HELPERS.sendCommand(sessionId, shellIntegrationScript("iterm")));
+    },
+
+    async renameSession(sessionId, name) {
+      await runAppleScript(AS_HELPERS.renameSession(sessionId, name));
+    },
+
+    async writeText(sessionId, text) {
+      await runAppleScript(AS_HELPERS.sendCommand(sessionId, text));
+    },
+
+    async readContents(sessionId) {
+      return runAppleScript(AS_HELPERS.sessionTemplate(sessionId, 'return contents'));
+    },
+
+    async sendKeys(sessionId, keys) {
+      await runAppleScript(AS_HELPERS.sendKeys(sessionId, keys));
+    },
+
+    async closeSession(sessionId) {
+      await runAppleScript(AS_HELPERS.sessionTemplate(sessionId, 'close'));
+    }
+  };
+}
@@ -0,0 +1,291 @@
+import type { CommandState, SessionInfo, SplitDirection, TerminalBackend } from './types.js';
+import { assignPositions, windowKeyAt } from './positions.js';
+
+// ==================================================
+// Fake Backend
+// ==================================================
+
+// What a scripted command prints. A command that `hangs` keeps the session busy
+// until `complete` is called or it receives Ctrl-C.
+export interface FakeCommandResult {
+  output?: string;
+  exitCode?: number;
+  hang?: boolean;
+}
+
+export type FakeResponder = (command: string, tabIndex: number) => FakeCommandResult | string | undefined;
+
+interface FakeSession {
+  id: string;
+  windowKey: number;
+  tabKey: number;
+  focusedAt: number;
+  name: string;
+  cwd: string;
+  output: string;
+  // Everything passed to writeText/sendKeys, for assertions
+  written: string[];
+  keys: string[];
+  // Statements still waiting behind a hanging command
+  queue: string[];
+  lastExitCode: number;
+  // Last line typed at the prompt, reported as the command line
+  lastCommand?: string;
+  variables: Record<string, string>;
+  shellIntegration: boolean;
+  // How it was split off its tab; undefined for tabs
+  splitDirection?: SplitDirection;
+  // What the hooks still report, until when, after a line was typed
+  staleState?: { state: CommandState, until: number };
+}
+
+export interface FakeBackendOptions {
+  responder?: FakeResponder;
+  prompt?: string;
+  initialSessions?: string[];
+  // Whether the initial sessions count as the user's own (default: false, as
+  // with the pty backend)
+  foreignSessions?: boolean;
+  // Whether sessions report command state as if their prompt hooks were
+  // installed (default: true); without it the server falls back to guessing
+  shellIntegration?: boolean;
+  // How long the prompt hooks take to report a typed line, during which the
+  // session reports what it did before (default: 0)
+  hookDelayMs?: number;
+}
+
+export interface FakeBackend extends TerminalBackend {
+  // Replaces how commands are answered
+  respond(responder: FakeResponder): void;
+  // The helpers below address sessions by their position in listSessions
+  // Appends output to a session as if a running process printed it
+  print(tabIndex: number, text: string): void;
+  // Finishes the hanging command in a session and runs what was queued behind it
+  complete(tabIndex: number, result?: FakeCommandResult): void;
+  // Text and keys the server sent to a session
+  written(tabIndex: number): string[];
+  keys(tabIndex: number): string[];
+  splitDirection(tabIndex: number): SplitDirection | undefined;
+  // Makes the next backend call throw, to exercise error paths
+  failNext(message: string): void;
+}
+
+// An in-memory stand-in for a terminal. Written lines are echoed after a prompt
+// and split on "; " into statements: `echo "..."`, `VAR=$?`, `cd /absolute/path`
+// and `pwd` are interpreted like a shell would, everything else is answered by
+// the responder.
+export function createFakeBackend(options: FakeBackendOptions = {}): FakeBackend {
+  const prompt = options.prompt ?? "$ ";
+  let responder: FakeResponder = options.responder || (() => undefined);
+  let pendingFailure: string | null = null;
+  const sessions: FakeSession[] = [];
+  let nextId = 1;
+  let nextWindowKey = 1;
+  let nextTabKey = 1;
+  let focusCounter = 0;
+
+  const addSession = (name: string, windowKey = 0, tabKey = nextTabKey++, cwd = "/home/fake") => {
+    const session: FakeSession = {
+      id: `fake-${nextId++}`, windowKey, tabKey, focusedAt: ++focusCounter, name, cwd, output: prompt, written: [], keys: [], queue: [], lastExitCode: 0, variables: {},
+      shellIntegration: options.shellIntegration ?? true
+    };
+    sessions.push(session);
+    return session;
+  };
+
+  (options.initialSessions || ["fake"]).forEach(name => addSession(name));
+
+  const throwPendingFailure = () => {
+    if (pendingFailure !== null) {
+      const message = pendingFailure;
+      pendingFailure = null;
+      throw new Error(message);
+    }
+  };
+
+  const getSession = (sessionId: string) => {
+    throwPendingFailure();
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found. It may have been closed.`);
+    }
+    return session;
+  };
+
+  const reportedState = (session: FakeSession): CommandState | undefined => {
+    if (!session.shellIntegration) {
+      return undefined;
+    }
+    if (session.staleState && Date.now() < session.staleState.until) {
+      return session.staleState.state;
+    }
+    return { status: isRunning(session) ? "running" : "idle", exitCode: session.lastExitCode, command: session.lastCommand };
+  };
+
+  // Like the real backends, running state comes from the hooks when they report
+  const listAll = () => assignPositions(sessions).map(({ session, window, index, pane, active }): SessionInfo => {
+    const commandState = reportedState(session);
+    return {
+      id: session.id, window, index, pane, active, columns: 80, rows: 24, name: session.name, cwd: session.cwd,
+      isRunning: commandState ? commandState.status === "running" : isRunning(session),
+      commandState
+    };
+  });
+
+  const getSessionAt = (position: number) => {
+    const ordered = assignPositions(sessions);
+    if (position >= ordered.length) {
+      throw new Error(`Tab index out of range. Requested ${position}, but only ${ordered.length} tabs exist.`);
+    }
+    return ordered[position].session;
+  };
+
+  const isRunning = (session: FakeSession) => !session.output.endsWith(prompt);
+
+  const print = (session: FakeSession, text: string) => {
+    session.output += text.endsWith("\n") || text === "" ? text : `${text}\n`;
+  };
+
+  // Runs queued statements until one hangs; returns to the prompt when done
+  const drain = (session: FakeSession) => {
+    while (session.queue.length > 0) {
+      const statement = session.queue.shift()!.trim();
+      const echo = statement.match(/^echo "(.*)"$/);
+      const assignment = statement.match(/^(\w+)=\$\?$/);
+      const cd = statement.match(/^cd (\/\S*)$/);
+
+      if (echo) {
+        print(session, echo[1].replace(/\$(\w+)/g, (_, name) => session.variables[name] ?? ""));
+      } else if (assignment) {
+        session.variables[assignment[1]] = String(session.lastExitCode);
+      } else if (cd) {
+        session.cwd = cd[1];
+        session.lastExitCode = 0;
+      } else if (statement === "pwd") {
+        print(session, session.cwd);
+        session.lastExitCode = 0;
+      } else if (statement) {
+        const reply = responder(statement, assignPositions(sessions).findIndex(p => p.session === session));
+        const result = typeof reply === "string" ? { output: reply } : reply || {};
+        if (result.output) {
+          print(session, result.output);
+        }
+        session.lastExitCode = result.exitCode ?? 0;
+        if (result.hang) {
+          return;
+        }
+      }
+    }
+    session.output += prompt;
+  };
+
+
+  return {
+    name: "fake",
+    foreignSessions: options.foreignSessions ?? false,
+
+    async listSessions() {
+      throwPendingFailure();
+      return listAll();
+    },
+
+    async createSession({ window = 0, name, cwd } = {}) {
+      throwPendingFailure();
+      const session = addSession(name || `fake-${sessions.length}`, windowKeyAt(sessions, window), nextTabKey++, cwd);
+      return listAll().find(info => info.id === session.id)!;
+    },
+
+    async createWindow({ name, cwd } = {}) {
+      throwPendingFailure();
+      const session = addSession(name || `fake-${sessions.length}`, nextWindowKey++, nextTabKey++, cwd);
+      return listAll().find(info => info.id === session.id)!;
+    },
+
+    async splitSession(sessionId, direction, { name, cwd } = {}) {
+      const { windowKey, tabKey } = getSession(sessionId);
+      const session = addSession(name || `fake-${sessions.length}`, windowKey, tabKey, cwd);
+      session.splitDirection = direction;
+      return listAll().find(info => info.id === session.id)!;
+    },
+
+    async focusSession(sessionId) {
+      getSession(sessionId).focusedAt = ++focusCounter;
+    },
+
+    async enableShellIntegration(sessionId) {
+      getSession(sessionId).shellIntegration = true;
+    },
+
+    async renameSession(sessionId, name) {
+      getSession(sessionId).name = name;
+    },
+
+    async writeText(sessionId, text) {
+      const session = getSession(sessionId);
+      const wasIdle = !isRunning(session);
+      const state = reportedState(session);
+      if (options.hookDelayMs && state) {
+        session.staleState = { state, until: Date.now() + options.hookDelayMs };
+      }
+      session.written.push(text);
+      session.output += `${text}\n`;
+      session.queue.push(...text.split(/;\s|\n/));
+      if (wasIdle) {
+        session.lastCommand = text;
+        drain(session);
+      }
+    },
+
+    async readContents(sessionId) {
+      return getSession(sessionId).output;
+    },
+
+    async sendKeys(sessionId, keys) {
+      const session = getSession(sessionId);
+      session.keys.push(keys);
+      if (keys === "\x03" && isRunning(session)) {
+        session.output += "^C\n";
+        session.lastExitCode = 130;
+        session.queue = [];
+        session.output += prompt;
+      }
+    },
+
+    async closeSession(sessionId) {
+      sessions.splice(sessions.indexOf(getSession(sessionId)), 1);
+    },
+
+    respond(newResponder) {
+      responder = newResponder;
+    },
+
+    print(tabIndex, text) {
+      print(getSessionAt(tabIndex), text);
+    },
+
+    complete(tabIndex, result = {}) {
+      const session = getSessionAt(tabIndex);
+      if (result.output) {
+        print(session, result.output);
+      }
+      session.lastExitCode = result.exitCode ?? 0;
+      drain(session);
+    },
+
+    written(tabIndex) {
+      return getSessionAt(tabIndex).written;
+    },
+
+    keys(tabIndex) {
+      return getSessionAt(tabIndex).keys;
+    },
+
+    splitDirection(tabIndex) {
+      return getSessionAt(tabIndex).splitDirection;
+    },
+
+    failNext(message) {
+      pendingFailure = message;
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import type { Config } from '../config.js';
+import type { TerminalBackend } from './types.js';
+import { createAppleScriptBackend } from './applescript.js';
+import { createPtyBackend } from './pty.js';
+import { createTmuxBackend } from './tmux.js';
+
+export type { CommandState, CreateSessionOptions, SessionInfo, SplitDirection, TerminalBackend } from './types.js';
+
+// Builds the configured backend, defaulting to iTerm2 on macOS and real shells
+// in pseudo-terminals everywhere else
+export function createBackend(config: Config): TerminalBackend {
+  const name = config.backend || (process.platform === 'darwin' ? "iterm2" : "pty");
+
+  switch (name) {
+    case "iterm2": return createAppleScriptBackend();
+    case "pty": return createPtyBackend(config.pty);
+    case "tmux": return createTmuxBackend(config.tmux);
+  }
+}
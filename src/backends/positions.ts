@@ -0,0 +1,46 @@
+// ==================================================
+// Window/Tab/Pane Positions
+// ==================================================
+
+// For backends that keep a flat list of sessions, each tagged with the window and
+// tab it was opened in. Positions are recomputed on every call so closing a tab or
+// the last tab of a window shifts the remaining ones down, as iTerm2 does.
+export interface WindowedSession {
+  windowKey: number;
+  tabKey: number;
+  // Bumped whenever the session is focused; the highest one in a tab is active
+  focusedAt: number;
+}
+
+export interface Positioned<T> {
+  session: T;
+  window: number;
+  index: number;
+  pane: number;
+  active: boolean;
+}
+
+function uniqueKeys(keys: number[]): number[] {
+  return [...new Set(keys)].sort((a, b) => a - b);
+}
+
+// Sessions in window, tab, then pane order, with their 0-based positions
+export function assignPositions<T extends WindowedSession>(sessions: T[]): Positioned<T>[] {
+  return uniqueKeys(sessions.map(s => s.windowKey)).flatMap((windowKey, window) => {
+    const inWindow = sessions.filter(s => s.windowKey === windowKey);
+    return uniqueKeys(inWindow.map(s => s.tabKey)).flatMap((tabKey, index) => {
+      const panes = inWindow.filter(s => s.tabKey === tabKey);
+      const lastFocused = Math.max(...panes.map(s => s.focusedAt));
+      return panes.map((session, pane) => ({ session, window, index, pane, active: session.focusedAt === lastFocused }));
+    });
+  });
+}
+
+// The key of the window at a 0-based position
+export function windowKeyAt(sessions: WindowedSession[], window: number): number {
+  const keys = uniqueKeys(sessions.map(s => s.windowKey));
+  if (window >= keys.length) {
+    throw new Error(`Window ${window} does not exist. There are only ${keys.length} windows.`);
+  }
+  return keys[window];
+}
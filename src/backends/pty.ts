@@ -0,0 +1,260 @@
+import { spawn, ChildProcess } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { CommandState, CreateSessionOptions, SessionInfo, TerminalBackend } from './types.js';
+import { quoteForShell } from './shell.js';
+import { applyOsc, cwdFromOsc, shellIntegrationScript } from './shell-integration.js';
+import { createScreenBuffer, endsWithPrompt, ScreenBuffer } from './screen-buffer.js';
+import { assignPositions, windowKeyAt } from './positions.js';
+
+// ==================================================
+// PTY Sessions
+// ==================================================
+interface PtySession {
+  id: string;
+  windowKey: number;
+  tabKey: number;
+  focusedAt: number;
+  proc: ChildProcess;
+  buffer: ScreenBuffer;
+  name: string;
+  // Where the shell started until its prompt hook reports otherwise
+  cwd?: string;
+  lastOutputAt: number;
+  commandState?: CommandState;
+  // Drop the hook installation from the buffer once the first hooked prompt shows
+  clearOnPrompt: boolean;
+}
+
+export interface PtyBackendOptions {
+  shell?: string;
+  cwd?: string;
+  columns?: number;
+  rows?: number;
+  scrollback?: number;
+}
+
+// Line editing is disabled so the pty's own echo is the only thing written back,
+// which keeps the screen buffer free of readline redraw sequences
+function shellArgs(shell: string): string[] {
+  switch (path.basename(shell)) {
+    case 'bash': return ['--noediting', '-i'];
+    case 'zsh': return ['+Z', '-i'];
+    default: return ['-i'];
+  }
+}
+
+// There is no portable pseudo-terminal API in Node, so shells are started under
+// script(1), which allocates the pty and relays it over plain pipes
+function spawnInPty(shell: string, options: Required<Omit<PtyBackendOptions, 'shell' | 'scrollback'>>): ChildProcess {
+  const shellCommand = [shell, ...shellArgs(shell)].map(quoteForShell).join(' ');
+  const startup = `stty cols ${options.columns} rows ${options.rows}; exec ${shellCommand}`;
+  const args = process.platform === 'darwin'
+    ? ['-q', '/dev/null', '/bin/sh', '-c', startup]
+    : ['-qfec', startup, '/dev/null'];
+
+  return spawn('script', args, {
+    cwd: options.cwd,
+    env: { ...process.env, TERM: 'xterm-256color' },
+    stdio: ['pipe', 'pipe', 'pipe']
+  });
+}
+
+// Waits until the shell has printed its first prompt and gone quiet, since
+// interactive shells discard anything typed while they are still starting up
+async function waitForPrompt(session: PtySession, timeoutMs = 10000, quietMs = 200): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (session.proc.exitCode !== null) {
+      throw new Error(`Shell exited during startup with code ${session.proc.exitCode}`);
+    }
+    const quiet = Date.now() - session.lastOutputAt >= quietMs;
+    if (session.lastOutputAt > 0 && quiet && endsWithPrompt(session.buffer.contents())) {
+      return;
+    }
+    await new Promise(r => setTimeout(r, 50));
+  }
+}
+
+// Shells the prompt hooks are written for
+const HOOKED_SHELLS = ['bash', 'zsh'];
+
+// Installs the prompt hooks and waits for the first prompt they report
+async function installHooks(session: PtySession, clear: boolean, timeoutMs = 5000): Promise<void> {
+  session.clearOnPrompt = clear;
+  session.proc.stdin?.write(`${shellIntegrationScript("osc")}\n`);
+  const deadline = Date.now() + timeoutMs;
+  while (!session.commandState && Date.now() < deadline) {
+    await new Promise(r => setTimeout(r, 50));
+  }
+  await waitForPrompt(session);
+}
+
+// ==================================================
+// Backend Implementation
+// ==================================================
+export function createPtyBackend(options: PtyBackendOptions = {}): TerminalBackend {
+  const shell = options.shell || process.env.SHELL || '/bin/sh';
+  const spawnOptions = {
+    cwd: options.cwd || process.cwd(),
+    columns: options.columns || 200,
+    rows: options.rows || 50
+  };
+  const sessions: PtySession[] = [];
+  let nextId = 1;
+  let nextWindowKey = 1;
+  let nextTabKey = 1;
+  let focusCounter = 0;
+  let started: Promise<unknown> | null = null;
+
+  const getSession = (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found. It may have been closed.`);
+    }
+    return session;
+  };
+
+  // Panes are separate pseudo-terminals grouped into a tab; there is no screen to
+  // divide, so each keeps the configured size
+  const listAll = () => assignPositions(sessions).map(({ session, window, index, pane, active }): SessionInfo => ({
+    id: session.id,
+    window,
+    index,
+    pane,
+    active,
+    columns: spawnOptions.columns,
+    rows: spawnOptions.rows,
+    name: session.name,
+    cwd: session.cwd,
+    isRunning: session.commandState ? session.commandState.status === "running" : !endsWithPrompt(session.buffer.contents()),
+    commandState: session.commandState
+  }));
+
+  const openSession = async (windowKey: number, tabKey: number, { name, cwd }: CreateSessionOptions = {}) => {
+    if (cwd !== undefined && !fs.statSync(cwd, { throwIfNoEntry: false })?.isDirectory()) {
+      throw new Error(`Directory ${cwd} does not exist.`);
+    }
+    const proc = spawnInPty(shell, { ...spawnOptions, cwd: cwd || spawnOptions.cwd });
+    const session: PtySession = {
+      id: `pty-${nextId++}`,
+      windowKey,
+      tabKey,
+      focusedAt: ++focusCounter,
+      proc,
+      buffer: createScreenBuffer(options.scrollback, payload => {
+        session.commandState = applyOsc(session.commandState, payload);
+        session.cwd = cwdFromOsc(payload) ?? session.cwd;
+        if (payload === "133;A" && session.clearOnPrompt) {
+          session.clearOnPrompt = false;
+          session.buffer.clear();
+        }
+      }),
+      name: name || path.basename(shell),
+      cwd: path.resolve(cwd || spawnOptions.cwd || '.'),
+      lastOutputAt: 0,
+      clearOnPrompt: false
+    };
+
+    const onOutput = (data: Buffer) => {
+      session.buffer.write(data.toString('utf8'));
+      session.lastOutputAt = Date.now();
+    };
+    proc.stdout?.on('data', onOutput);
+    proc.stderr?.on('data', onOutput);
+    proc.stdin?.on('error', () => { /* shell already gone, exit handler cleans up */ });
+
+    // Like iTerm2 closing a tab when its shell exits, drop the session
+    proc.on('exit', () => {
+      const index = sessions.indexOf(session);
+      if (index !== -1) {
+        sessions.splice(index, 1);
+      }
+    });
+
+    const spawned = new Promise<void>((resolve, reject) => {
+      proc.once('spawn', resolve);
+      proc.once('error', reject);
+    });
+    await spawned;
+
+    sessions.push(session);
+    await waitForPrompt(session);
+    if (HOOKED_SHELLS.includes(path.basename(shell))) {
+      await installHooks(session, true);
+    }
+    return listAll().find(info => info.id === session.id)!;
+  };
+
+  // Like a freshly launched iTerm2 window, start out with one session. A failed
+  // start is forgotten, so the next call tries again.
+  const ensureStarted = () => started ??= openSession(0, 0).catch(error => {
+    started = null;
+    throw error;
+  });
+
+  return {
+    name: "pty",
+    // Every session is one this process spawned
+    foreignSessions: false,
+
+    async listSessions() {
+      await ensureStarted();
+      return listAll();
+    },
+
+    async createSession(sessionOptions = {}) {
+      await ensureStarted();
+      return openSession(windowKeyAt(sessions, sessionOptions.window ?? 0), nextTabKey++, sessionOptions);
+    },
+
+    async createWindow(sessionOptions = {}) {
+      await ensureStarted();
+      return openSession(nextWindowKey++, nextTabKey++, sessionOptions);
+    },
+
+    async splitSession(sessionId, _direction, sessionOptions = {}) {
+      await ensureStarted();
+      const { windowKey, tabKey } = getSession(sessionId);
+      return openSession(windowKey, tabKey, sessionOptions);
+    },
+
+    async focusSession(sessionId) {
+      await ensureStarted();
+      getSession(sessionId).focusedAt = ++focusCounter;
+    },
+
+    async enableShellIntegration(sessionId) {
+      await ensureStarted();
+      await installHooks(getSession(sessionId), false);
+    },
+
+    async renameSession(sessionId, name) {
+      await ensureStarted();
+      getSession(sessionId).name = name;
+    },
+
+    async writeText(sessionId, text) {
+      await ensureStarted();
+      getSession(sessionId).proc.stdin?.write(`${text}\n`);
+    },
+
+    async readContents(sessionId) {
+      await ensureStarted();
+      return getSession(sessionId).buffer.contents();
+    },
+
+    async sendKeys(sessionId, keys) {
+      await ensureStarted();
+      getSession(sessionId).proc.stdin?.write(keys);
+    },
+
+    async closeSession(sessionId) {
+      await ensureStarted();
+      const session = getSession(sessionId);
+      const exited = new Promise(resolve => session.proc.once('exit', resolve));
+      session.proc.kill('SIGTERM');
+      await exited;
+    }
+  };
+}
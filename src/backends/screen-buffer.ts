@@ -0,0 +1,115 @@
+// ==================================================
+// Screen Buffer
+// ==================================================
+
+// Escape sequences we drop entirely: OSC (title, shell integration), CSI
+// (colors, cursor movement), character set selection (ESC ( B, as sent by
+// `tput sgr0`) and the remaining two-character escapes.
+const OSC_PATTERN = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+const CSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]/g;
+const ESC_PATTERN = /\x1b(?:[()*+][0-9A-Za-z]|[@-Z\\-_])/g;
+
+export interface ScreenBuffer {
+  // Feeds raw terminal output into the buffer
+  write(chunk: string): void;
+
+  // Returns scrollback plus the line currently being written
+  contents(): string;
+
+  // Forgets everything written so far
+  clear(): void;
+}
+
+// Keeps a plain-text approximation of what a terminal would show: escape
+// sequences are stripped, carriage returns and backspaces overwrite the
+// current line, and only the last `maxLines` lines are retained. OSC payloads
+// are handed to onOsc, in order, before being dropped.
+export function createScreenBuffer(maxLines = 10000, onOsc?: (payload: string) => void): ScreenBuffer {
+  const lines: string[] = [];
+  let current: string[] = [];
+  let column = 0;
+  // Escape sequences can be split across chunks, so hold back an unterminated tail
+  let pending = "";
+
+  const commitLine = () => {
+    lines.push(current.join("").trimEnd());
+    if (lines.length > maxLines) {
+      lines.splice(0, lines.length - maxLines);
+    }
+    current = [];
+    column = 0;
+  };
+
+  const put = (raw: string) => {
+    const text = raw.replace(CSI_PATTERN, "").replace(ESC_PATTERN, "");
+    for (const ch of text) {
+      if (ch === "\n") {
+        commitLine();
+      } else if (ch === "\r") {
+        column = 0;
+      } else if (ch === "\b") {
+        column = Math.max(0, column - 1);
+      } else if (ch === "\t") {
+        const stop = (Math.floor(column / 8) + 1) * 8;
+        while (column < stop) {
+          current[column++] = " ";
+        }
+      } else if (ch >= " " && ch !== "\x7f") {
+        while (current.length < column) {
+          current.push(" ");
+        }
+        current[column++] = ch;
+      }
+    }
+  };
+
+  return {
+    write(chunk: string) {
+      let text = pending + chunk;
+      pending = "";
+
+      // OSC payloads carry whole command lines, so they may be held back longer
+      const unterminatedOsc = text.match(/\x1b\][^\x07\x1b]{0,4096}\x1b?$/);
+      const lastEscape = unterminatedOsc?.index ?? text.lastIndexOf("\x1b");
+      if (unterminatedOsc) {
+        pending = text.substring(lastEscape);
+        text = text.substring(0, lastEscape);
+      } else if (lastEscape !== -1 && lastEscape > text.length - 64) {
+        const tail = text.substring(lastEscape);
+        const complete = tail.replace(OSC_PATTERN, "").replace(CSI_PATTERN, "").replace(ESC_PATTERN, "");
+        if (complete.startsWith("\x1b")) {
+          pending = tail;
+          text = text.substring(0, lastEscape);
+        }
+      }
+
+      // Text before each OSC is laid out before its payload is reported, so a
+      // handler sees the screen as it was when the sequence arrived
+      let position = 0;
+      for (const match of text.matchAll(OSC_PATTERN)) {
+        put(text.substring(position, match.index));
+        onOsc?.(match[0].substring(2).replace(/(?:\x07|\x1b\\)$/, ""));
+        position = match.index! + match[0].length;
+      }
+      put(text.substring(position));
+    },
+
+    contents() {
+      return [...lines, current.join("")].join("\n");
+    },
+
+    clear() {
+      lines.length = 0;
+      current = [];
+      column = 0;
+    }
+  };
+}
+
+// A trailing shell prompt character means the session is waiting for input.
+// Unlike the iTerm2 backend's guess, "#" counts as well, for the root shells
+// common in the containers the pty and tmux backends run in.
+export function endsWithPrompt(content: string): boolean {
+  const lastLine = content.trimEnd().split("\n").pop() || "";
+  return /[%$>#]$/.test(lastLine);
+}
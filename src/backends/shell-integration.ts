@@ -0,0 +1,119 @@
+import type { CommandState } from './types.js';
+
+// ==================================================
+// Shell Integration
+// ==================================================
+
+// Prompt hooks for bash and zsh that report when a command starts (with its
+// command line), when it finishes (with its exit status) and when the prompt is
+// shown again (with the working directory). How a report reaches the server
+// depends on the backend, so each supplies its own
+// `__mcp_report <running CMD | done STATUS | prompt DIR>`. Bash has no preexec
+// hook, so a DEBUG trap stands in for it, armed by the last entry of
+// PROMPT_COMMAND; Enter on an empty line runs PROMPT_COMMAND alone, which is
+// recognized by its first entry. The script is typed into interactive shells,
+// where zsh does not allow comments, hence none inside it.
+const HOOKS = String.raw`
+__mcp_preexec() {
+  __mcp_ran=1
+  __mcp_report running "$(printf %s "$1" | tr '\t\n' '  ')"
+}
+__mcp_precmd() {
+  __mcp_status=$?
+  if [ -n "$__mcp_ran" ]; then __mcp_report done "$__mcp_status"; fi
+  __mcp_ran=
+  __mcp_report prompt "$PWD"
+}
+if [ -n "$ZSH_VERSION" ]; then
+  autoload -Uz add-zsh-hook
+  add-zsh-hook preexec __mcp_preexec
+  add-zsh-hook precmd __mcp_precmd
+elif [ -n "$BASH_VERSION" ] && [ -z "$__mcp_hooked" ]; then
+  __mcp_hooked=1
+  __mcp_debug() {
+    [ -n "$__mcp_at_prompt" ] || return
+    __mcp_at_prompt=
+    [ "$BASH_COMMAND" != __mcp_precmd ] || return
+    __mcp_line=$(HISTTIMEFORMAT= history 1 | sed 's/^ *[0-9]* *//')
+    [ -n "$__mcp_line" ] || __mcp_line=$BASH_COMMAND
+    __mcp_preexec "$__mcp_line"
+  }
+  trap '__mcp_debug' DEBUG
+  PROMPT_COMMAND="__mcp_precmd"$'\n'"$PROMPT_COMMAND"$'\n'"__mcp_at_prompt=1"
+fi`;
+
+// Semantic prompt marks (OSC 133) plus the command line (OSC 633 E) and the
+// working directory (OSC 7), for backends that read the terminal output stream
+// themselves
+const OSC_REPORTER = String.raw`
+__mcp_report() {
+  case "$1" in
+    running) printf '\033]633;E;%s\007\033]133;C\007' "$2" ;;
+    done) printf '\033]133;D;%s\007' "$2" ;;
+    prompt) printf '\033]7;file://%s%s\007\033]133;A\007' "$HOSTNAME" "$2" ;;
+  esac
+}`;
+
+// iTerm2 user variables (OSC 1337 SetUserVar), readable over AppleScript as
+// user.mcpState, user.mcpExit and user.mcpCommand
+const ITERM_REPORTER = String.raw`
+__mcp_var() {
+  printf '\033]1337;SetUserVar=%s=%s\007' "$1" "$(printf %s "$2" | base64 | tr -d '\n')"
+}
+__mcp_report() {
+  case "$1" in
+    running) __mcp_var mcpCommand "$2"; __mcp_var mcpState running ;;
+    done) __mcp_var mcpExit "$2" ;;
+    prompt) __mcp_var mcpState idle ;;
+  esac
+}`;
+
+// tmux pane options, since tmux does not pass unknown escape sequences on. The
+// command is base64-encoded so it survives tmux's format output intact.
+const TMUX_REPORTER = String.raw`
+__mcp_report() {
+  case "$1" in
+    running) tmux set -p -t "$TMUX_PANE" @mcp_command "$(printf %s "$2" | base64 | tr -d '\n')" \; set -p -t "$TMUX_PANE" @mcp_state running ;;
+    done) tmux set -p -t "$TMUX_PANE" @mcp_exit "$2" ;;
+    prompt) tmux set -p -t "$TMUX_PANE" @mcp_state idle ;;
+  esac
+}`;
+
+const REPORTERS = { osc: OSC_REPORTER, iterm: ITERM_REPORTER, tmux: TMUX_REPORTER };
+
+// The script to type into a shell to install the hooks
+export function shellIntegrationScript(reporter: keyof typeof REPORTERS): string {
+  return `${REPORTERS[reporter]}${HOOKS}`.trim();
+}
+
+// Builds the state from reported values; undefined until a prompt was reported
+export function commandStateFrom(state: string, exitCode: string, command: string): CommandState | undefined {
+  if (state !== "idle" && state !== "running") {
+    return undefined;
+  }
+  return {
+    status: state,
+    exitCode: exitCode === "" ? undefined : parseInt(exitCode, 10),
+    command: command || undefined
+  };
+}
+
+// The directory from an OSC 7 payload ("7;file://host/path"), if it is one
+export function cwdFromOsc(payload: string): string | undefined {
+  const match = payload.match(/^7;file:\/\/[^/]*(\/.*)$/);
+  return match?.[1];
+}
+
+// Applies one OSC payload (the text between "ESC ]" and the terminator) to a
+// session's state. Returns the new state, or the old one for unrelated sequences.
+export function applyOsc(state: CommandState | undefined, payload: string): CommandState | undefined {
+  if (payload.startsWith("633;E;")) {
+    return { status: "idle", ...state, command: payload.substring(6) };
+  }
+  switch (payload.split(";").slice(0, 2).join(";")) {
+    case "133;A": return { ...state, status: "idle" };
+    case "133;C": return { ...state, status: "running" };
+    case "133;D": return { status: "idle", ...state, exitCode: parseInt(payload.substring(6), 10) };
+    default: return state;
+  }
+}
@@ -0,0 +1,4 @@
+// Single-quotes a string for POSIX shells
+export function quoteForShell(str: string): string {
+  return `'${str.replace(/'/g, "'\\''")}'`;
+}
@@ -0,0 +1,285 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { CreateSessionOptions, SessionInfo, SplitDirection, TerminalBackend } from './types.js';
+import { quoteForShell } from './shell.js';
+import { endsWithPrompt } from './screen-buffer.js';
+import { commandStateFrom, shellIntegrationScript } from './shell-integration.js';
+
+const execFilePromise = promisify(execFile);
+
+export interface TmuxBackendOptions {
+  // tmux session that holds the tabs; created on first use if missing
+  session?: string;
+  // Alternate server socket name (tmux -L)
+  socket?: string;
+  // Run tmux on another machine over ssh, e.g. "dev@build-box"
+  host?: string;
+}
+
+// iTerm2 names a split after its divider, tmux after how the panes end up stacked
+const SPLIT_FLAGS: Record<SplitDirection, string> = { horizontal: '-v', vertical: '-h' };
+
+// Processes that mean a pane is sitting at a prompt rather than running a command
+const SHELLS = ['bash', 'zsh', 'sh', 'fish', 'dash', 'ksh', 'tcsh', 'csh'];
+
+// Tabs are not safe in format output (tmux may print them as "_"), so the
+// free-form name and working directory go last after ":" separators, with the
+// directory's length in bytes to tell where the name ends. Pane ids (e.g. "%3") double as
+// the stable session ids. A pane is named by its @mcp_name option if it was
+// given one, and otherwise shares the name of its window. The @mcp_state,
+// @mcp_exit and @mcp_command options are set by the prompt hooks, and
+// @mcp_opened by markOpened.
+const PANE_FORMAT = [
+  '#{session_name}', '#{window_index}', '#{pane_index}', '#{pane_id}', '#{pane_active}',
+  '#{pane_width}', '#{pane_height}', '#{pane_current_command}', '#{@mcp_state}', '#{@mcp_exit}', '#{@mcp_command}',
+  '#{@mcp_opened}', '#{n:pane_current_path}', '#{?@mcp_name,#{@mcp_name},#{window_name}}', '#{pane_current_path}'
+].join(':');
+
+// Reads one line of list-panes output in PANE_FORMAT
+export function parsePaneLine(line: string) {
+  const [tmuxSession, windowIndex, paneIndex, paneId, active, width, height, command, state, exitCode, commandLine, opened, cwdLength, ...rest] = line.split(':');
+  const nameAndCwd = Buffer.from(rest.join(':'), 'utf8');
+  const cwdStart = nameAndCwd.length - parseInt(cwdLength, 10);
+  return {
+    tmuxSession,
+    windowIndex: parseInt(windowIndex, 10),
+    paneIndex: parseInt(paneIndex, 10),
+    paneId,
+    active: active === '1',
+    columns: parseInt(width, 10),
+    rows: parseInt(height, 10),
+    name: nameAndCwd.subarray(0, Math.max(0, cwdStart - 1)).toString('utf8'),
+    cwd: nameAndCwd.subarray(cwdStart).toString('utf8') || undefined,
+    command,
+    opened: opened === '1',
+    commandState: commandStateFrom(state, exitCode, Buffer.from(commandLine, 'base64').toString('utf8'))
+  };
+}
+
+// ==================================================
+// Backend Implementation
+// ==================================================
+
+// Tabs map onto the windows of a tmux session in window-index order, so with the
+// default base-index of 0 tab N of the first window is tmux window N
+export function createTmuxBackend(options: TmuxBackendOptions = {}): TerminalBackend {
+  const sessionName = options.session || "mcp-iterm";
+
+  const tmux = async (...args: string[]): Promise<string> => {
+    const fullArgs = options.socket ? ['-L', options.socket, ...args] : args;
+    try {
+      const { stdout } = options.host
+        ? await execFilePromise('ssh', [options.host, ['tmux', ...fullArgs].map(quoteForShell).join(' ')])
+        : await execFilePromise('tmux', fullArgs);
+      return stdout;
+    } catch (error: any) {
+      throw new Error(`tmux ${args[0]} failed: ${(error.stderr || error.message).trim()}`);
+    }
+  };
+
+  const capture = async (pane: string) => {
+    // -S - starts at the top of the history, -J joins lines tmux wrapped
+    const output = await tmux('capture-pane', '-p', '-J', '-S', '-', '-t', pane);
+    return output.replace(/\s+$/, '');
+  };
+
+  // Interactive shells discard anything typed while they are still starting up,
+  // so wait for a prompt that has stopped changing
+  const waitForPrompt = async (pane: string, timeoutMs = 10000, quietMs = 200) => {
+    const deadline = Date.now() + timeoutMs;
+    let previous = await capture(pane);
+    while (Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, quietMs));
+      const current = await capture(pane);
+      if (current === previous && endsWithPrompt(current)) {
+        return;
+      }
+      previous = current;
+    }
+  };
+
+  // Types the prompt hooks into a pane and waits until they report the first
+  // prompt. Fresh panes are then reset so the agent does not read the script.
+  const installHooks = async (pane: string, clear: boolean, timeoutMs = 5000) => {
+    await tmux('send-keys', '-t', pane, '-l', shellIntegrationScript("tmux"));
+    await tmux('send-keys', '-t', pane, 'Enter');
+    const deadline = Date.now() + timeoutMs;
+    while (!(await tmux('display-message', '-p', '-t', pane, '#{@mcp_state}')).trim() && Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, 100));
+    }
+    if (clear) {
+      await tmux('send-keys', '-R', '-t', pane);
+      await tmux('clear-history', '-t', pane);
+      await tmux('send-keys', '-t', pane, 'Enter');
+    }
+    await waitForPrompt(pane);
+  };
+
+  // Panes the server opened are marked, so they are not taken for the user's
+  // own when a later run of the server finds them
+  const markOpened = (paneId: string) => tmux('set-option', '-p', '-t', paneId, '@mcp_opened', '1');
+
+  const ensureSession = async () => {
+    try {
+      await tmux('has-session', '-t', `=${sessionName}`);
+    } catch {
+      const paneId = await tmux('new-session', '-d', '-s', sessionName, '-x', '200', '-y', '50', '-P', '-F', '#{pane_id}');
+      await markOpened(paneId.trim());
+      await waitForPrompt(paneId.trim());
+      await installHooks(paneId.trim(), true);
+    }
+  };
+
+  // Window 0 is the configured tmux session; further windows are sibling
+  // sessions named "<session>-2", "<session>-3", ... numbered in that order
+  const windowNumber = (name: string) => {
+    if (name === sessionName) {
+      return 1;
+    }
+    const suffix = name.startsWith(`${sessionName}-`) ? name.substring(sessionName.length + 1) : "";
+    return /^\d+$/.test(suffix) ? parseInt(suffix, 10) : -1;
+  };
+
+  const listAll = async () => {
+    await ensureSession();
+    const output = await tmux('list-panes', '-a', '-F', PANE_FORMAT);
+    const rows = output.trim().split('\n').filter(Boolean).map(line => {
+      const pane = parsePaneLine(line);
+      return { ...pane, number: windowNumber(pane.tmuxSession) };
+    }).filter(row => row.number > 0)
+      .sort((a, b) => a.number - b.number || a.windowIndex - b.windowIndex || a.paneIndex - b.paneIndex);
+
+    const tmuxSessions = [...new Set(rows.map(row => row.tmuxSession))];
+    return rows.map(row => {
+      const window = tmuxSessions.indexOf(row.tmuxSession);
+      const windowIndexes = [...new Set(rows.filter(r => r.tmuxSession === row.tmuxSession).map(r => r.windowIndex))];
+      const pane = rows.filter(r => r.tmuxSession === row.tmuxSession && r.windowIndex === row.windowIndex).indexOf(row);
+      return { ...row, window, index: windowIndexes.indexOf(row.windowIndex), pane };
+    });
+  };
+
+  // Pane ids are unique across the whole tmux server, so they can be targeted
+  // directly; reject ones that belong to some other tmux session
+  const target = async (sessionId: string) => {
+    const panes = await listAll();
+    if (!panes.some(p => p.paneId === sessionId)) {
+      throw new Error(`Session ${sessionId} not found. It may have been closed.`);
+    }
+    return sessionId;
+  };
+
+  const toInfo = (row: Awaited<ReturnType<typeof listAll>>[number]): SessionInfo => ({
+    id: row.paneId,
+    window: row.window,
+    index: row.index,
+    pane: row.pane,
+    active: row.active,
+    columns: row.columns,
+    rows: row.rows,
+    name: row.name,
+    cwd: row.cwd,
+    isRunning: row.commandState ? row.commandState.status === "running" : !SHELLS.includes(row.command),
+    openedByServer: row.opened,
+    commandState: row.commandState
+  });
+
+  const windowOptions = ({ name, cwd }: CreateSessionOptions) => [
+    ...(name ? ['-n', name] : []),
+    ...(cwd ? ['-c', cwd] : [])
+  ];
+
+  const findSession = async (paneId: string) => {
+    await markOpened(paneId);
+    await waitForPrompt(paneId);
+    await installHooks(paneId, true);
+    const row = (await listAll()).find(r => r.paneId === paneId);
+    if (!row) {
+      throw new Error(`Session ${paneId} exited right after it was created.`);
+    }
+    return toInfo(row);
+  };
+
+  return {
+    name: "tmux",
+    foreignSessions: true,
+
+    async listSessions() {
+      return (await listAll()).map(toInfo);
+    },
+
+    async createSession({ window = 0, name, cwd } = {}) {
+      const tmuxSessions = [...new Set((await listAll()).map(row => row.tmuxSession))];
+      if (window >= tmuxSessions.length) {
+        throw new Error(`Window ${window} does not exist. There are only ${tmuxSessions.length} windows.`);
+      }
+      const paneId = await tmux('new-window', '-d', '-t', `=${tmuxSessions[window]}:`, ...windowOptions({ name, cwd }), '-P', '-F', '#{pane_id}');
+      return findSession(paneId.trim());
+    },
+
+    async createWindow({ name, cwd } = {}) {
+      const numbers = (await listAll()).map(row => row.number);
+      const tmuxSession = `${sessionName}-${Math.max(1, ...numbers) + 1}`;
+      const paneId = await tmux('new-session', '-d', '-s', tmuxSession, '-x', '200', '-y', '50', ...windowOptions({ name, cwd }), '-P', '-F', '#{pane_id}');
+      return findSession(paneId.trim());
+    },
+
+    async splitSession(sessionId, direction, { name, cwd } = {}) {
+      const pane = await target(sessionId);
+      const paneId = (await tmux('split-window', '-t', pane, SPLIT_FLAGS[direction], ...(cwd ? ['-c', cwd] : []), '-P', '-F', '#{pane_id}')).trim();
+      if (name) {
+        await tmux('set-option', '-p', '-t', paneId, '@mcp_name', name);
+      }
+      return findSession(paneId);
+    },
+
+    async focusSession(sessionId) {
+      const pane = await target(sessionId);
+      await tmux('select-window', '-t', pane);
+      await tmux('select-pane', '-t', pane);
+    },
+
+    async enableShellIntegration(sessionId) {
+      await installHooks(await target(sessionId), false);
+    },
+
+    // A tab with a single pane is named through its window, which also turns off
+    // tmux's automatic renaming after the running command
+    async renameSession(sessionId, name) {
+      const panes = await listAll();
+      const pane = panes.find(p => p.paneId === sessionId);
+      if (!pane) {
+        throw new Error(`Session ${sessionId} not found. It may have been closed.`);
+      }
+      await tmux('set-option', '-p', '-t', pane.paneId, '@mcp_name', name);
+      if (!panes.some(p => p.tmuxSession === pane.tmuxSession && p.windowIndex === pane.windowIndex && p !== pane)) {
+        await tmux('rename-window', '-t', pane.paneId, name);
+      }
+    },
+
+    async writeText(sessionId, text) {
+      const pane = await target(sessionId);
+      await tmux('send-keys', '-t', pane, '-l', text);
+      await tmux('send-keys', '-t', pane, 'Enter');
+    },
+
+    async readContents(sessionId) {
+      return capture(await target(sessionId));
+    },
+
+    async sendKeys(sessionId, keys) {
+      const pane = await target(sessionId);
+      for (const ch of keys) {
+        const code = ch.charCodeAt(0);
+        if (code >= 1 && code <= 26) {
+          await tmux('send-keys', '-t', pane, `C-${String.fromCharCode(code + 96)}`);
+        } else {
+          await tmux('send-keys', '-t', pane, '-l', ch);
+        }
+      }
+    },
+
+    async closeSession(sessionId) {
+      await tmux('kill-pane', '-t', await target(sessionId));
+    }
+  };
+}
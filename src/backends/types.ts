@@ -0,0 +1,94 @@
+// ==================================================
+// Terminal Backend Interface
+// ==================================================
+
+// A single addressable terminal session as reported by a backend
+export interface SessionInfo {
+  // Stable for the lifetime of the session, unlike its position
+  id: string;
+  // 0-based window, in the order windows were opened
+  window: number;
+  // 0-based tab position within its window
+  index: number;
+  // 0-based pane position within its tab
+  pane: number;
+  // Whether this is the focused pane of its tab
+  active: boolean;
+  columns: number;
+  rows: number;
+  name: string;
+  // The shell's current working directory, when the backend can tell
+  cwd?: string;
+  isRunning: boolean;
+  // Set by backends that remember which sessions the server opened, even across
+  // restarts of the server
+  openedByServer?: boolean;
+  // What the shell reported through its prompt hooks; absent without shell
+  // integration, in which case isRunning is guessed from the screen contents
+  commandState?: CommandState;
+}
+
+// Per-session command tracking from shell integration
+export interface CommandState {
+  status: "idle" | "running";
+  // Of the last finished command
+  exitCode?: number;
+  // The running command, or the last one while idle
+  command?: string;
+}
+
+// "horizontal" puts the new pane below, "vertical" to the right, as iTerm2 names them
+export type SplitDirection = "horizontal" | "vertical";
+
+// How to set up a new session
+export interface CreateSessionOptions {
+  // Window to open the tab in (default: the first one); ignored for new windows
+  window?: number;
+  name?: string;
+  // Working directory of the new shell
+  cwd?: string;
+}
+
+// Everything the tool handlers need from a terminal. Every pane is a session
+// addressed by its stable ID; the tool layer resolves positional `tab` and `pane`
+// indexes through listSessions.
+export interface TerminalBackend {
+  readonly name: string;
+  // Whether the terminal can hold sessions the server did not open, like the
+  // user's own tabs; the server only writes to those when they are marked writable
+  readonly foreignSessions: boolean;
+
+  // Lists all sessions of all windows, in window, tab, then pane order
+  listSessions(): Promise<SessionInfo[]>;
+
+  // Opens a new tab and reports where it ended up
+  createSession(options?: CreateSessionOptions): Promise<SessionInfo>;
+
+  // Opens a new window and returns the session of its first tab
+  createWindow(options?: CreateSessionOptions): Promise<SessionInfo>;
+
+  // Splits a pane and returns the new one, which gets the focus
+  splitSession(sessionId: string, direction: SplitDirection, options?: CreateSessionOptions): Promise<SessionInfo>;
+
+  // Makes a pane the active one of its tab and brings the tab to the front
+  focusSession(sessionId: string): Promise<void>;
+
+  // Installs the prompt hooks that report command state into an existing
+  // session; sessions the backend opens get them automatically
+  enableShellIntegration(sessionId: string): Promise<void>;
+
+  // Changes the name the session is listed and addressed by
+  renameSession(sessionId: string, name: string): Promise<void>;
+
+  // Types text into the session followed by a newline
+  writeText(sessionId: string, text: string): Promise<void>;
+
+  // Returns the visible screen plus scrollback of the session
+  readContents(sessionId: string): Promise<string>;
+
+  // Sends raw characters (e.g. control codes) to the session
+  sendKeys(sessionId: string, keys: string): Promise<void>;
+
+  // Closes the session
+  closeSession(sessionId: string): Promise<void>;
+}
@@ -0,0 +1,85 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { AuditConfig } from './audit.js';
+import type { PtyBackendOptions } from './backends/pty.js';
+import type { TmuxBackendOptions } from './backends/tmux.js';
+import type { PolicyConfig } from './policy.js';
+import type { ProtectionConfig } from './protection.js';
+import type { RedactionConfig } from './redaction.js';
+
+// ==================================================
+// Configuration
+// ==================================================
+export type BackendName = "iterm2" | "pty" | "tmux";
+
+export const BACKEND_NAMES: BackendName[] = ["iterm2", "pty", "tmux"];
+
+export interface Config {
+  backend?: BackendName;
+  pty?: PtyBackendOptions;
+  tmux?: TmuxBackendOptions;
+  // Which commands may be typed into sessions
+  policy?: PolicyConfig;
+  // Which tabs the server did not open it may write to
+  protection?: ProtectionConfig;
+  // Where tool calls are recorded; false turns the audit log off
+  audit?: AuditConfig | false;
+  // Which secrets are masked in output and the audit log; false turns masking off
+  redaction?: RedactionConfig | false;
+}
+
+export const DEFAULT_CONFIG_PATH = path.join(os.homedir(), '.mcp-iterm.json');
+
+// Reads the JSON config file, if any. An explicitly requested file must exist;
+// the default location is optional.
+function readConfigFile(configPath: string | undefined): Config {
+  const filePath = configPath || DEFAULT_CONFIG_PATH;
+  if (!configPath && !fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read config file ${filePath}: ${error.message}`);
+  }
+}
+
+const CLI_OPTIONS = {
+  config: { type: 'string' },
+  backend: { type: 'string' },
+  'tmux-session': { type: 'string' },
+  'tmux-socket': { type: 'string' },
+  'tmux-host': { type: 'string' },
+  'dry-run': { type: 'boolean' }
+} as const;
+
+// The subcommand and its arguments, e.g. ["replay", "audit.jsonl"]; none to run the server
+export function parseSubcommand(argv: string[] = process.argv.slice(2)): { positionals: string[], dryRun: boolean } {
+  const { values, positionals } = parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true, strict: false });
+  return { positionals, dryRun: values['dry-run'] === true };
+}
+
+// Merges, in increasing precedence: config file, environment, CLI flags
+export function loadConfig(argv: string[] = process.argv.slice(2)): Config {
+  const { values } = parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true, strict: false });
+
+  const config = readConfigFile((values.config as string | undefined) || process.env.MCP_ITERM_CONFIG);
+
+  const backend = (values.backend as string | undefined) || process.env.MCP_ITERM_BACKEND || config.backend;
+  if (backend !== undefined && !BACKEND_NAMES.includes(backend as BackendName)) {
+    throw new Error(`Unknown backend "${backend}". Expected one of: ${BACKEND_NAMES.join(', ')}`);
+  }
+  config.backend = backend as BackendName | undefined;
+
+  config.tmux = {
+    ...config.tmux,
+    ...(values['tmux-session'] ? { session: values['tmux-session'] as string } : {}),
+    ...(values['tmux-socket'] ? { socket: values['tmux-socket'] as string } : {}),
+    ...(values['tmux-host'] ? { host: values['tmux-host'] as string } : {})
+  };
+
+  return config;
+}
@@ -0,0 +1,73 @@
+import crypto from 'node:crypto';
+
+// ==================================================
+// Output Cursors
+// ==================================================
+
+// Backends only return the screen plus scrollback, without absolute positions, so a
+// cursor records how many lines preceded it and a hash of the few lines just before
+// it. The next read looks for those lines where they were, then further up in case
+// older output scrolled out of the buffer meanwhile. The last line is never covered
+// since it may still change (a progress bar, a prompt being typed at); the cursor
+// keeps its hash instead, so it is only returned again if it did change.
+const ANCHOR_LINES = 3;
+
+export interface OutputSlice {
+  // New lines, oldest first
+  lines: string[];
+  // Where the next read continues
+  cursor: string;
+  // The cursor's position is gone from the buffer, so output may have been missed
+  truncated: boolean;
+  // New lines left for the next read because of the size limits
+  remaining: number;
+}
+
+function hash(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex').substring(0, 12);
+}
+
+function anchorHash(lines: string[], end: number): string {
+  return hash(lines.slice(Math.max(0, end - ANCHOR_LINES), end).join("\n"));
+}
+
+// Where a cursor points in the current lines, or -1 when its anchor is gone;
+// skips the line that was last at the cursor's read if it is unchanged
+function locate(lines: string[], cursor: string): number {
+  const match = cursor.match(/^(\d+)-([0-9a-f]{12})(?:-([0-9a-f]{12}))?$/);
+  if (!match) {
+    throw new Error(`Invalid cursor "${cursor}". Pass a cursor returned by iterm_read_output.`);
+  }
+  const complete = Math.max(0, lines.length - 1);
+  for (let position = Math.min(parseInt(match[1], 10), complete); position >= 0; position--) {
+    if (anchorHash(lines, position) === match[2]) {
+      return position < lines.length && match[3] === hash(lines[position]) ? position + 1 : position;
+    }
+  }
+  return -1;
+}
+
+// The output after a cursor, or the last maxLines lines without one. Stops
+// early rather than exceeding maxChars, so nothing is cut off mid-way.
+export function readSince(content: string, cursor: string | undefined, maxLines: number, maxChars = 15000): OutputSlice {
+  const trimmed = content.replace(/\s+$/, "");
+  const lines = trimmed === "" ? [] : trimmed.split("\n");
+  const found = cursor === undefined ? Math.max(0, lines.length - maxLines) : locate(lines, cursor);
+  const start = Math.max(0, found);
+
+  let end = start;
+  let size = 0;
+  while (end < lines.length && end - start < maxLines && (end === start || size + lines[end].length < maxChars)) {
+    size += lines[end].length + 1;
+    end++;
+  }
+
+  const covered = Math.min(end, Math.max(0, lines.length - 1));
+  const last = end === lines.length && lines.length > 0 ? `-${hash(lines[covered])}` : "";
+  return {
+    lines: lines.slice(start, end),
+    cursor: `${covered}-${anchorHash(lines, covered)}${last}`,
+    truncated: found === -1,
+    remaining: lines.length - end
+  };
+}
@@ -0,0 +1,24 @@
+// ==================================================
+// Definition Files
+// ==================================================
+
+// Checks shared by the files the server reads back, workspace definitions and
+// layout snapshots. Problems are thrown with the field they concern, e.g.
+// "tabs[0].name is required", for the caller to say which file it was.
+
+export function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Returns never, so it can also end an expression: `read(...) ?? fail(...)`
+export function fail(message: string): never {
+  throw new Error(message);
+}
+
+// A field that may be left out, but must be a non-empty string if given
+export function readOptionalString(value: any, where: string): string | undefined {
+  if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+    fail(`${where} must be a non-empty string`);
+  }
+  return value;
+}
@@ -0,0 +1,139 @@
+import type { SessionInfo, TerminalBackend } from './backends/index.js';
+import { createWatcher } from './watcher.js';
+
+// ==================================================
+// Jobs
+// ==================================================
+
+// How often running jobs are checked for their end marker
+export const JOB_WATCH_INTERVAL_MS = 1000;
+
+// Finished jobs beyond this many are forgotten, oldest first
+const MAX_FINISHED_JOBS = 100;
+
+// A marked command the server started. "lost" means its session closed before
+// the end marker showed up, so how it ended is unknown. "interrupted" means its
+// shell went back to the prompt without printing the end marker, as after
+// Control-C, which drops the rest of the marked command line.
+export interface Job {
+  id: string;
+  command: string;
+  sessionId: string;
+  marker: string;
+  startedAt: Date;
+  status: "running" | "finished" | "interrupted" | "lost";
+  endedAt?: Date;
+  exitCode?: number;
+}
+
+export interface JobRegistry {
+  // Registers a command that was just sent with sendMarkedCommand
+  start(sessionId: string, command: string, marker: string): Job;
+  // Throws for unknown IDs
+  get(id: string): Job;
+  // All jobs, oldest first
+  list(): Job[];
+  // Updates a job from what its session shows now, and from the state its
+  // prompt hooks report if given
+  observe(job: Job, content: string, session?: SessionInfo): void;
+  // Checks every running job's session
+  refresh(): Promise<void>;
+  // Ends a running job that stopped without its session showing how, like
+  // one stopped for a crash where the prompt hooks cannot tell
+  finish(id: string, status: "interrupted" | "lost"): Job;
+  close(): void;
+}
+
+// Keeps track of marked commands and notices when they finish, also while
+// nobody asks, so end times are accurate to the watch interval
+export function createJobRegistry(backend: TerminalBackend, intervalMs = JOB_WATCH_INTERVAL_MS): JobRegistry {
+  const jobs: Job[] = [];
+  let nextId = 1;
+
+  const observe = (job: Job, content: string, session?: SessionInfo) => {
+    if (job.status !== "running") {
+      return;
+    }
+    const end = content.match(new RegExp(`${job.marker}-END:(\\d+)`));
+    if (end) {
+      job.status = "finished";
+      job.endedAt = new Date();
+      job.exitCode = parseInt(end[1], 10);
+      return;
+    }
+    // Only the hooks can tell; a prompt character could be a REPL's. The START
+    // marker shows the line ran, so an idle state is not one from before it.
+    const started = new RegExp(`${job.marker}-START\\r?$`, 'm').test(content);
+    if (started && session?.commandState?.status === "idle") {
+      job.status = "interrupted";
+      job.endedAt = new Date();
+      job.exitCode = session.commandState.exitCode;
+    }
+  };
+
+  const refresh = async () => {
+    const running = jobs.filter(job => job.status === "running");
+    const sessions = new Map((await backend.listSessions()).map(s => [s.id, s]));
+    const contents = new Map<string, string>();
+    for (const job of running) {
+      if (!sessions.has(job.sessionId)) {
+        job.status = "lost";
+        job.endedAt = new Date();
+        continue;
+      }
+      if (!contents.has(job.sessionId)) {
+        contents.set(job.sessionId, await backend.readContents(job.sessionId));
+      }
+      observe(job, contents.get(job.sessionId)!, sessions.get(job.sessionId));
+    }
+  };
+
+  const get = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job) {
+      throw new Error(`Job ${id} not found. Use iterm_list_jobs to see the known jobs.`);
+    }
+    return job;
+  };
+
+  const watcher = createWatcher(refresh, () => jobs.some(job => job.status === "running"), intervalMs);
+
+  const prune = () => {
+    const finished = jobs.filter(job => job.status !== "running");
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      jobs.splice(jobs.indexOf(job), 1);
+    }
+  };
+
+  return {
+    start(sessionId, command, marker) {
+      const job: Job = { id: `job-${nextId++}`, command, sessionId, marker, startedAt: new Date(), status: "running" };
+      jobs.push(job);
+      prune();
+      watcher.start();
+      return job;
+    },
+
+    get,
+
+    list() {
+      return [...jobs];
+    },
+
+    observe,
+    refresh,
+
+    finish(id, status) {
+      const job = get(id);
+      if (job.status === "running") {
+        job.status = status;
+        job.endedAt = new Date();
+      }
+      return job;
+    },
+
+    close() {
+      watcher.close();
+    }
+  };
+}
@@ -0,0 +1,142 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { SessionInfo, SplitDirection } from './backends/index.js';
+import { fail, isObject, readOptionalString } from './definitions.js';
+import type { Redactor } from './redaction.js';
+
+// ==================================================
+// Layout Snapshots
+// ==================================================
+
+// The file format version written by saveLayout; files from other versions are rejected
+const LAYOUT_VERSION = 1;
+
+export interface LayoutPane {
+  name: string;
+  cwd?: string;
+  // The last command launched in it, if known
+  command?: string;
+  // How many secrets were masked in the command; such commands are not run again
+  redacted?: number;
+  // How it was split off the tab, if the server split it; restored as
+  // "vertical" when not known
+  direction?: SplitDirection;
+}
+
+export interface LayoutTab {
+  // The first pane is the tab itself, the others were split off it
+  panes: LayoutPane[];
+}
+
+export interface LayoutWindow {
+  tabs: LayoutTab[];
+}
+
+export interface Layout {
+  version: number;
+  savedAt: string;
+  // The backend it was taken from, for reference only
+  backend: string;
+  windows: LayoutWindow[];
+}
+
+export interface CaptureOptions {
+  // The last command launched in a session
+  commandFor(session: SessionInfo): string | undefined;
+  // How a pane was split off its tab, if known
+  directionFor(session: SessionInfo): SplitDirection | undefined;
+  // Masks secrets in the commands, like the env a workspace exported, since
+  // snapshots are plain files
+  redactor: Redactor;
+}
+
+// Groups sessions into their windows and tabs
+export function captureLayout(sessions: SessionInfo[], backend: string, options: CaptureOptions): Layout {
+  const windows: LayoutWindow[] = [];
+  const ordered = [...sessions].sort((a, b) => a.window - b.window || a.index - b.index || a.pane - b.pane);
+  let previous: SessionInfo | undefined;
+  for (const session of ordered) {
+    if (!previous || previous.window !== session.window) {
+      windows.push({ tabs: [] });
+    }
+    const { tabs } = windows[windows.length - 1];
+    if (!previous || previous.window !== session.window || previous.index !== session.index) {
+      tabs.push({ panes: [] });
+    }
+    const { panes } = tabs[tabs.length - 1];
+    const command = options.commandFor(session);
+    const redacted = command ? options.redactor.redact(command) : undefined;
+    const direction = panes.length > 0 ? options.directionFor(session) : undefined;
+    panes.push({
+      name: session.name,
+      ...(session.cwd ? { cwd: session.cwd } : {}),
+      ...(redacted ? { command: redacted.text } : {}),
+      ...(redacted?.count ? { redacted: redacted.count } : {}),
+      ...(direction ? { direction } : {})
+    });
+    previous = session;
+  }
+  return { version: LAYOUT_VERSION, savedAt: new Date().toISOString(), backend, windows };
+}
+
+export function writeLayout(filePath: string, layout: Layout) {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(layout, null, 2)}\n`);
+}
+
+// Reads and checks a snapshot written by writeLayout
+export function readLayout(filePath: string): Layout {
+  let layout: any;
+  try {
+    layout = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    return fail(error instanceof SyntaxError ? `not a layout snapshot (${error.message})` : error.message);
+  }
+  if (!isObject(layout) || !Array.isArray(layout.windows)) {
+    fail("not a layout snapshot (no windows list)");
+  }
+  if (layout.version !== LAYOUT_VERSION) {
+    fail(`unsupported snapshot version ${JSON.stringify(layout.version)}, expected ${LAYOUT_VERSION}`);
+  }
+
+  const windows = layout.windows.map((window: any, w: number): LayoutWindow => {
+    if (!isObject(window) || !Array.isArray(window.tabs) || window.tabs.length === 0) {
+      fail(`windows[${w}].tabs must be a non-empty list`);
+    }
+    return {
+      tabs: window.tabs.map((tab: any, t: number): LayoutTab => {
+        const where = `windows[${w}].tabs[${t}]`;
+        if (!isObject(tab) || !Array.isArray(tab.panes) || tab.panes.length === 0) {
+          fail(`${where}.panes must be a non-empty list`);
+        }
+        return {
+          panes: tab.panes.map((pane: any, p: number): LayoutPane => {
+            if (!isObject(pane)) {
+              fail(`${where}.panes[${p}] must be an object`);
+            }
+            const name = readOptionalString(pane.name, `${where}.panes[${p}].name`) ?? fail(`${where}.panes[${p}].name is required`);
+            const cwd = readOptionalString(pane.cwd, `${where}.panes[${p}].cwd`);
+            const command = readOptionalString(pane.command, `${where}.panes[${p}].command`);
+            if (pane.redacted !== undefined && !(Number.isInteger(pane.redacted) && pane.redacted > 0)) {
+              fail(`${where}.panes[${p}].redacted must be a positive integer`);
+            }
+            if (pane.direction !== undefined && pane.direction !== "horizontal" && pane.direction !== "vertical") {
+              fail(`${where}.panes[${p}].direction must be "horizontal" or "vertical"`);
+            }
+            return {
+              name,
+              ...(cwd ? { cwd } : {}),
+              ...(command ? { command } : {}),
+              ...(pane.redacted ? { redacted: pane.redacted } : {}),
+              ...(pane.direction && p > 0 ? { direction: pane.direction } : {})
+            };
+          })
+        };
+      })
+    };
+  });
+  if (windows.length === 0) {
+    fail("the snapshot has no windows");
+  }
+  return { version: layout.version, savedAt: String(layout.savedAt ?? ""), backend: String(layout.backend ?? ""), windows };
+}
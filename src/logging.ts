@@ -0,0 +1,28 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// ==================================================
+// Logging Setup
+// ==================================================
+export const logFilePath = path.join('/tmp', 'mcp-iterm.log');
+// Ensure log directory exists
+try {
+  fs.mkdirSync('/tmp', { recursive: true });
+} catch (e: any) {
+  // Directory might already exist or we can't create it
+  console.error(`Warning: Could not ensure log directory exists: ${e.message}`);
+}
+
+export function logMessage(message: string) {
+  // Always log to console for reliability
+  console.error(`[iterm-mcp] ${message}`);
+  
+  try {
+    const timestamp = new Date().toISOString();
+    const logEntry = `${timestamp} [iterm-mcp] ${message}\n`;
+    fs.appendFileSync(logFilePath, logEntry, 'utf8');
+  } catch (err: any) {
+    // File logging failed but we already logged to console
+    console.error(`[iterm-mcp] Warning: Could not write to log file: ${err.message}`);
+  }
+}
@@ -0,0 +1,44 @@
+import crypto from 'node:crypto';
+import type { TerminalBackend } from './backends/index.js';
+
+// ==================================================
+// Marked Commands
+// ==================================================
+
+// Generate unique marker with timestamp and random bytes
+export function generateMarker() {
+  return `===${crypto.randomBytes(4).toString('hex')}-${Date.now()}===`;
+}
+
+// Marks the beginning and end of a command for later extraction
+export async function sendMarkedCommand(backend: TerminalBackend, sessionId: string, command: string, marker: string) {
+  const markedCommand = `echo "${marker}-START"; ${command}; RESULT=$?; echo "${marker}-END:$RESULT"`;
+  await backend.writeText(sessionId, markedCommand);
+}
+
+// Extract content between start marker and end marker
+export function extractMarkedContent(fullContent: string, marker: string) {
+  // The terminal echoes the typed command too, so only a marker ending a line
+  // counts as output. It need not start one: a command typed before the prompt
+  // came back gets its output printed after that prompt.
+  const startMarkerPattern = new RegExp(`${marker}-START\\r?$`, 'm');
+  const endMarkerPattern = new RegExp(`${marker}-END:(\\d+)`);
+  
+  const startMatch = fullContent.match(startMarkerPattern);
+  if (!startMatch || startMatch.index === undefined) {
+    return { content: "", exitCode: -1 }; // Start marker not found
+  }
+  
+  const afterStart = fullContent.substring(startMatch.index + startMatch[0].length);
+  const endMatch = afterStart.match(endMarkerPattern);
+  
+  if (!endMatch) {
+    return { content: afterStart, exitCode: -1 }; // End marker not found, return everything after start
+  }
+  
+  const endIndex = afterStart.indexOf(endMatch[0]);
+  const extractedContent = afterStart.substring(0, endIndex).trim();
+  const exitCode = parseInt(endMatch[1], 10);
+  
+  return { content: extractedContent, exitCode };
+}
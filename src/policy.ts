@@ -0,0 +1,165 @@
+// ==================================================
+// Command Policy
+// ==================================================
+
+// Rules are globs matched against the whole command or one of its parts
+// ("npm *", "git status"), or regular expressions written between slashes and
+// searched anywhere in it ("/\\bsudo\\b/", "/drop\\s+table/i"). Allow rules
+// are tried on each part.
+export interface PolicyRules {
+  // When given, every part of a command must match one of these
+  allow?: string[];
+  deny?: string[];
+  // Commands that only run with confirm: true
+  confirm?: string[];
+}
+
+export interface PolicyConfig extends PolicyRules {
+  // What to do with the built-in dangerous patterns (default: "confirm")
+  dangerous?: "confirm" | "deny" | "allow";
+  // Extra rules for sessions, keyed by tab name or session ID. They apply on
+  // top of the rules above, so they can only narrow what is allowed.
+  sessions?: Record<string, PolicyRules>;
+}
+
+export interface PolicyDecision {
+  action: "allow" | "confirm" | "deny";
+  // Why it was not allowed, e.g. `it matches the deny rule "sudo *"`
+  reason?: string;
+}
+
+export interface CommandPolicy {
+  check(command: string, session: { id?: string, name?: string }): PolicyDecision;
+  // Whether sessions has rules for this tab name or session ID
+  hasSessionRules(key: string): boolean;
+}
+
+// Commands that destroy data or are hard to take back, with what they do
+const DANGEROUS_PATTERNS: [RegExp, string][] = [
+  [/\brm\s+(?:-\S+\s+)*-\S*[rR]\S*\s+(?:-\S+\s+)*(?:\/\*?|~\/?|\$HOME\/?)(?=\s|$|[;&|])/, "recursive delete of / or the home directory"],
+  [/\bgit\s+push\b[^;&|\n]*(?:\s--force\b|\s-f\b|\s\+\S)/, "force push"],
+  [/\bgit\s+reset\s+--hard\b/, "discards uncommitted changes"],
+  [/\bgit\s+clean\s+-\S*f/, "deletes untracked files"],
+  [/\bdrop\s+(?:table|database|schema)\b/i, "drops a table or database"],
+  [/\btruncate\s+table\b/i, "empties a table"],
+  [/\bdelete\s+from\s+\w+\s*(?:;|$)/im, "deletes every row of a table"],
+  [/\bmkfs(?:\.\w+)?\b/, "formats a file system"],
+  [/\bdd\b[^;&|\n]*\bof=\/dev\//, "writes to a device"],
+  [/>\s*\/dev\/(?:sd|hd|nvme|disk|mmcblk)/, "writes to a device"],
+  [/\bchmod\s+(?:-\S+\s+)*0?777\s+\/(?=\s|$)/, "opens up permissions on /"],
+  [/:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/, "fork bomb"],
+  [/\b(?:curl|wget)\b[^;&|\n]*\|\s*(?:sudo\s+)?(?:ba|z)?sh\b/, "runs a downloaded script"],
+  [/(?:^|[;&|]\s*)(?:sudo\s+)?(?:shutdown|reboot|halt|poweroff)\b/m, "shuts down the machine"],
+  [/\bterraform\s+destroy\b/, "destroys infrastructure"],
+  [/\bkubectl\s+delete\b/, "deletes Kubernetes resources"]
+];
+
+interface CompiledRule {
+  source: string;
+  // Globs must match a whole part; regular expressions may match anywhere
+  glob: boolean;
+  expression: RegExp;
+}
+
+function compileRule(source: string, where: string): CompiledRule {
+  const regex = source.match(/^\/(.+)\/([a-z]*)$/s);
+  if (regex) {
+    try {
+      return { source, glob: false, expression: new RegExp(regex[1], regex[2]) };
+    } catch (error: any) {
+      throw new Error(`${where} is not a valid regular expression: ${error.message}`);
+    }
+  }
+  const pattern = source.split("").map(c => c === "*" ? ".*" : c === "?" ? "." : c.replace(/[.+^${}()|[\]\\]/, "\\$&")).join("");
+  return { source, glob: true, expression: new RegExp(`^${pattern}$`, "s") };
+}
+
+function compileRules(rules: any, where: string): CompiledRule[] {
+  if (rules === undefined) {
+    return [];
+  }
+  if (!Array.isArray(rules) || rules.some(rule => typeof rule !== 'string' || rule.trim() === '')) {
+    throw new Error(`${where} must be a list of patterns`);
+  }
+  return rules.map((rule, index) => compileRule(rule, `${where}[${index}]`));
+}
+
+// The simple commands a command line is made of. Quotes are not taken into
+// account, so a quoted "a; b" is split as well; that only makes rules stricter.
+function partsOf(command: string): string[] {
+  return command.split(/\s*(?:&&|\|\||[;|\n])\s*/).map(part => part.trim()).filter(Boolean);
+}
+
+function matches(rule: CompiledRule, command: string, parts: string[]): boolean {
+  return rule.glob ? [command.trim(), ...parts].some(part => rule.expression.test(part)) : rule.expression.test(command);
+}
+
+interface CompiledRules {
+  allow?: CompiledRule[];
+  deny: CompiledRule[];
+  confirm: CompiledRule[];
+  // e.g. ` for "prod"`
+  scope: string;
+}
+
+// Compiles the policy from the config file; throws on malformed rules
+export function createCommandPolicy(config: PolicyConfig = {}): CommandPolicy {
+  const dangerous = config.dangerous ?? "confirm";
+  if (!["confirm", "deny", "allow"].includes(dangerous)) {
+    throw new Error('policy.dangerous must be "confirm", "deny" or "allow"');
+  }
+  const compile = (rules: PolicyRules, where: string, scope: string): CompiledRules => ({
+    ...(rules.allow !== undefined ? { allow: compileRules(rules.allow, `${where}.allow`) } : {}),
+    deny: compileRules(rules.deny, `${where}.deny`),
+    confirm: compileRules(rules.confirm, `${where}.confirm`),
+    scope
+  });
+  const global = compile(config, "policy", "");
+  const sessions = new Map(Object.entries(config.sessions ?? {}).map(([key, rules]) =>
+    [key, compile(rules ?? {}, `policy.sessions.${key}`, ` for "${key}"`)]));
+
+  return {
+    check(command, session) {
+      const parts = partsOf(command);
+      const applicable = [global];
+      for (const key of [session.id, session.name]) {
+        const rules = key !== undefined ? sessions.get(key) : undefined;
+        if (rules && !applicable.includes(rules)) {
+          applicable.push(rules);
+        }
+      }
+
+      for (const rules of applicable) {
+        const denied = rules.deny.find(rule => matches(rule, command, parts));
+        if (denied) {
+          return { action: "deny", reason: `it matches the deny rule "${denied.source}"${rules.scope}` };
+        }
+      }
+      for (const rules of applicable) {
+        // Not the command as a whole, or "npm *" would let "npm test && make" through
+        const unlisted = rules.allow ? parts.find(part => !rules.allow!.some(rule => rule.expression.test(part))) : undefined;
+        if (unlisted !== undefined) {
+          return { action: "deny", reason: `"${unlisted}" is not on the allow list${rules.scope}` };
+        }
+      }
+
+      if (dangerous !== "allow") {
+        const found = DANGEROUS_PATTERNS.find(([expression]) => expression.test(command));
+        if (found) {
+          return { action: dangerous, reason: `it looks dangerous (${found[1]})` };
+        }
+      }
+      for (const rules of applicable) {
+        const confirm = rules.confirm.find(rule => matches(rule, command, parts));
+        if (confirm) {
+          return { action: "confirm", reason: `it matches the confirm rule "${confirm.source}"${rules.scope}` };
+        }
+      }
+      return { action: "allow" };
+    },
+
+    hasSessionRules(key) {
+      return sessions.has(key);
+    }
+  };
+}
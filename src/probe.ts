@@ -0,0 +1,111 @@
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+
+// ==================================================
+// Readiness Probes
+// ==================================================
+
+// How long a single connection attempt or request may take
+export const PROBE_ATTEMPT_TIMEOUT_MS = 2000;
+
+// What tells that a server is up: a TCP port on this machine accepting
+// connections, or an HTTP(S) URL answering with the expected status
+export interface ReadinessProbe {
+  port?: number;
+  url?: string;
+  // For url: the status code to expect (default: any below 400)
+  status?: number;
+}
+
+export interface ProbeResult {
+  ready: boolean;
+  // What the attempt saw, e.g. "connection refused" or "HTTP 503"
+  detail: string;
+}
+
+// Checks a probe as given to a tool or in a workspace file. Returns the problem,
+// with field names behind the prefix (e.g. "ready."), or undefined if there is none.
+export function probeProblem(probe: { port?: any, url?: any, status?: any }, prefix = ""): string | undefined {
+  const { port, url, status } = probe;
+  if (port === undefined && url === undefined) {
+    return `${prefix}port or ${prefix}url is required`;
+  }
+  if (port !== undefined && url !== undefined) {
+    return `${prefix}port and ${prefix}url cannot be combined`;
+  }
+  if (port !== undefined && (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535)) {
+    return `${prefix}port must be an integer from 1 to 65535, got ${JSON.stringify(port)}`;
+  }
+  if (url !== undefined) {
+    let parsed: URL | undefined;
+    try {
+      parsed = typeof url === 'string' ? new URL(url) : undefined;
+    } catch {
+      // Reported below
+    }
+    if (!parsed || (parsed.protocol !== "http:" && parsed.protocol !== "https:")) {
+      return `${prefix}url must be an http:// or https:// URL, got ${JSON.stringify(url)}`;
+    }
+  }
+  if (status !== undefined) {
+    if (url === undefined) {
+      return `${prefix}status only applies to ${prefix}url`;
+    }
+    if (typeof status !== 'number' || !Number.isInteger(status) || status < 100 || status > 599) {
+      return `${prefix}status must be an HTTP status code, got ${JSON.stringify(status)}`;
+    }
+  }
+  return undefined;
+}
+
+// e.g. `port 3000` or `http://localhost:3000/health`
+export function describeProbe(probe: ReadinessProbe): string {
+  if (probe.url !== undefined) {
+    return probe.status !== undefined ? `${probe.url} (expecting HTTP ${probe.status})` : probe.url;
+  }
+  return `port ${probe.port}`;
+}
+
+function describeError(error: any): string {
+  switch (error.code) {
+    case 'ECONNREFUSED': return "connection refused";
+    case 'ECONNRESET': return "connection reset";
+    case 'ENOTFOUND': return "host not found";
+    default: return error.message;
+  }
+}
+
+// Whether a connection to the port succeeds on one of the loopback addresses,
+// since a server may listen on IPv4 or IPv6 only
+function checkPort(port: number, timeoutMs: number): Promise<ProbeResult> {
+  const attempt = (host: string) => new Promise<ProbeResult>(resolve => {
+    const socket = net.connect({ host, port });
+    const finish = (result: ProbeResult) => {
+      socket.destroy();
+      resolve(result);
+    };
+    socket.setTimeout(timeoutMs, () => finish({ ready: false, detail: `no answer within ${timeoutMs / 1000} seconds` }));
+    socket.once('connect', () => finish({ ready: true, detail: "connection accepted" }));
+    socket.on('error', error => finish({ ready: false, detail: describeError(error) }));
+  });
+  return attempt("127.0.0.1").then(result => result.ready ? result : attempt("::1").then(ipv6 => ipv6.ready ? ipv6 : result));
+}
+
+function checkUrl(url: string, status: number | undefined, timeoutMs: number): Promise<ProbeResult> {
+  return new Promise(resolve => {
+    const client = url.startsWith("https:") ? https : http;
+    const request = client.get(url, { timeout: timeoutMs }, response => {
+      response.resume();
+      const code = response.statusCode ?? 0;
+      resolve({ ready: status !== undefined ? code === status : code < 400, detail: `HTTP ${code}` });
+    });
+    request.once('timeout', () => request.destroy(new Error(`no answer within ${timeoutMs / 1000} seconds`)));
+    request.on('error', error => resolve({ ready: false, detail: describeError(error) }));
+  });
+}
+
+// Makes one attempt; never throws
+export function checkProbe(probe: ReadinessProbe, timeoutMs = PROBE_ATTEMPT_TIMEOUT_MS): Promise<ProbeResult> {
+  return probe.url !== undefined ? checkUrl(probe.url, probe.status, timeoutMs) : checkPort(probe.port!, timeoutMs);
+}
@@ -0,0 +1,96 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { LoggingLevel, ProgressToken } from "@modelcontextprotocol/sdk/types.js";
+import { readSince } from './cursor.js';
+import { logMessage } from './logging.js';
+import type { Redactor } from './redaction.js';
+
+// ==================================================
+// Progress Reporting
+// ==================================================
+
+// How often a long wait reports, at most
+export const PROGRESS_INTERVAL_MS = 1000;
+
+// Newest lines of output included in each progress notification
+const PROGRESS_LINES = 5;
+
+// In increasing severity, as logging/setLevel defines them
+const LOG_LEVELS: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+// What a tool handler gets besides its arguments
+export interface CallContext {
+  // Aborted when the client cancels the request
+  signal?: AbortSignal;
+  // Starts reporting on a wait of at most totalSeconds and returns the function
+  // to call with the output so far on every poll. Reports go out as
+  // notifications/progress when the request carried a progress token, and new
+  // output as notifications/message once the client set the log level to info.
+  reporter(label: string, totalSeconds: number): (output: string) => void;
+}
+
+// For calls nobody listens to
+export const SILENT_CALL: CallContext = {
+  reporter: () => () => {}
+};
+
+export function createCallContext(
+  server: Server,
+  progressToken: ProgressToken | undefined,
+  logLevel: LoggingLevel | undefined,
+  redactor: Redactor,
+  signal?: AbortSignal
+): CallContext {
+  const logging = logLevel !== undefined && LOG_LEVELS.indexOf(logLevel) <= LOG_LEVELS.indexOf("info");
+  if (progressToken === undefined && !logging) {
+    return { ...SILENT_CALL, signal };
+  }
+
+  // Output goes out as it arrives, so it is masked here as in tool results
+  const mask = (text: string) => redactor.redact(text).text;
+
+  const send = (notification: Promise<void>) => {
+    notification.catch((error: any) => logMessage(`Error sending notification: ${error.message}`));
+  };
+
+  return {
+    signal,
+
+    reporter(label, totalSeconds) {
+      const startedAt = Date.now();
+      let reportedAt = startedAt;
+      let cursor: string | undefined;
+
+      return output => {
+        // Marked output comes with the line break after its START marker
+        output = output.replace(/^\n+/, "");
+        const now = Date.now();
+        if (now - reportedAt < PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        reportedAt = now;
+        const elapsed = (now - startedAt) / 1000;
+
+        if (progressToken !== undefined) {
+          const newest = output.trimEnd().split("\n").slice(-PROGRESS_LINES).join("\n");
+          send(server.notification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: elapsed,
+              total: totalSeconds,
+              message: mask(`${label} for ${elapsed.toFixed(0)} seconds.${newest ? ` Latest output:\n${newest}` : ""}`)
+            }
+          }));
+        }
+
+        if (logging) {
+          const slice = readSince(output, cursor, Infinity);
+          cursor = slice.cursor;
+          if (slice.lines.length > 0) {
+            send(server.sendLoggingMessage({ level: "info", logger: "iterm-mcp", data: mask(`${label}:\n${slice.lines.join("\n")}`) }));
+          }
+        }
+      };
+    }
+  };
+}
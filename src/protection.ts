@@ -0,0 +1,33 @@
+import type { SessionInfo } from './backends/index.js';
+
+// ==================================================
+// Protected Sessions
+// ==================================================
+
+// Text in a tab name that lets the server write to a tab it did not open
+export const DEFAULT_WRITABLE_MARKER = "[agent]";
+
+// Which of the sessions the server did not open it may still write to. All
+// others, like the user's own SSH session into production, can only be read.
+export interface ProtectionConfig {
+  // Tab names or session IDs, or "*" for every session
+  writable?: string[];
+  // Tabs whose name contains this are writable (default: "[agent]")
+  marker?: string;
+}
+
+// Checks the protection settings from the config file; throws on malformed ones.
+// Returns whether a session the server did not open was marked writable.
+export function createWritableCheck(config: ProtectionConfig = {}): { marker: string, isMarked: (session: SessionInfo) => boolean } {
+  const { writable = [], marker = DEFAULT_WRITABLE_MARKER } = config;
+  if (!Array.isArray(writable) || writable.some(entry => typeof entry !== 'string' || entry.trim() === '')) {
+    throw new Error("protection.writable must be a list of tab names or session IDs");
+  }
+  if (typeof marker !== 'string' || marker.trim() === '') {
+    throw new Error("protection.marker must be a non-empty string");
+  }
+  return {
+    marker,
+    isMarked: session => writable.includes("*") || writable.includes(session.id) || writable.includes(session.name) || session.name.includes(marker)
+  };
+}
@@ -0,0 +1,97 @@
+// ==================================================
+// Secret Redaction
+// ==================================================
+
+// Patterns are regular expressions, optionally written between slashes to add
+// flags ("/secret-[a-z0-9]+/i"). With a group named "secret" only that group is
+// masked, so "password=hunter2" becomes "password=[REDACTED:password]".
+export interface RedactionConfig {
+  patterns?: string[];
+  // Whether the built-in detectors run as well (default: true)
+  builtIn?: boolean;
+}
+
+export interface Redactor {
+  // The text with secrets masked, and how many were
+  redact(text: string): { text: string, count: number };
+}
+
+// What tends to show up in `env`, config dumps and shell history. Names like
+// password are matched inside DB_PASSWORD too, hence no \b around them.
+const BUILT_IN_PATTERNS: [string, RegExp][] = [
+  ["private-key", /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$(?![\s\S]))/g],
+  ["aws-access-key", /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g],
+  ["aws-secret-key", /\baws_secret_access_key\b["']?\s*[=:]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi],
+  ["github-token", /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g],
+  ["slack-token", /\bxox[abeprs]-[A-Za-z0-9-]{10,}/g],
+  ["slack-webhook", /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g],
+  ["jwt", /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g],
+  ["bearer-token", /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/g],
+  ["password", /(?<![A-Za-z0-9])(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token)(?![A-Za-z0-9])["']?\s*[=:]\s*(?<secret>"[^"\n]+"|'[^'\n]+'|(?!\[REDACTED)[^\s"',;&]+)/gi]
+];
+
+function compilePattern(source: string, where: string): RegExp {
+  const slashed = source.match(/^\/(.+)\/([a-z]*)$/s);
+  const [pattern, flags] = slashed ? [slashed[1], slashed[2]] : [source, ""];
+  try {
+    return new RegExp(pattern, flags.includes("g") ? flags : `${flags}g`);
+  } catch (error: any) {
+    throw new Error(`${where} is not a valid regular expression: ${error.message}`);
+  }
+}
+
+// Checks the redaction settings from the config file; throws on malformed ones.
+// false turns redaction off.
+export function createRedactor(config: RedactionConfig | false = {}): Redactor {
+  if (config === false) {
+    return { redact: text => ({ text, count: 0 }) };
+  }
+  const { patterns = [], builtIn = true } = config;
+  if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || pattern === '')) {
+    throw new Error("redaction.patterns must be a list of regular expressions");
+  }
+  const detectors: [string, RegExp][] = [
+    ...(builtIn ? BUILT_IN_PATTERNS : []),
+    ...patterns.map((pattern, index): [string, RegExp] => ["custom", compilePattern(pattern, `redaction.patterns[${index}]`)])
+  ];
+
+  return {
+    redact(text) {
+      let count = 0;
+      for (const [name, pattern] of detectors) {
+        text = text.replace(pattern, (match, ...rest) => {
+          const groups = rest[rest.length - 1];
+          const secret: string | undefined = typeof groups === 'object' ? groups?.secret : undefined;
+          if (match === "" || secret === "") {
+            return match;
+          }
+          count++;
+          return secret !== undefined
+            ? match.substring(0, match.lastIndexOf(secret)) + `[REDACTED:${name}]` + match.substring(match.lastIndexOf(secret) + secret.length)
+            : `[REDACTED:${name}]`;
+        });
+      }
+      return { text, count };
+    }
+  };
+}
+
+// Masks the secrets in every string of a JSON-like value, for the audit log
+export function redactValue<T>(redactor: Redactor, value: T): { value: T, count: number } {
+  let count = 0;
+  const visit = (item: any): any => {
+    if (typeof item === 'string') {
+      const redacted = redactor.redact(item);
+      count += redacted.count;
+      return redacted.text;
+    }
+    if (Array.isArray(item)) {
+      return item.map(visit);
+    }
+    if (typeof item === 'object' && item !== null) {
+      return Object.fromEntries(Object.entries(item).map(([key, nested]) => [key, visit(nested)]));
+    }
+    return item;
+  };
+  return { value: visit(value), count };
+}
@@ -0,0 +1,81 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AuditEntry, readAuditLog } from './audit.js';
+import type { TerminalBackend } from './backends/index.js';
+import { createServer, ServerOptions } from './server.js';
+
+// ==================================================
+// Audit Log Replay
+// ==================================================
+
+export interface ReplayOptions {
+  // Only list the calls and what they typed
+  dryRun?: boolean;
+}
+
+// e.g. `[2/7] 2026-10-18T09:12:03.512Z iterm_run_command_async {"tab":1,"command":"npm test"} (session %1, exit code 1)`
+function describeEntry(entry: AuditEntry, number: number, total: number): string {
+  const recorded = [
+    entry.session !== undefined ? `session ${entry.session}` : "",
+    entry.exitCode !== undefined ? `exit code ${entry.exitCode}` : ""
+  ].filter(Boolean).join(", ");
+  return `[${number}/${total}] ${entry.timestamp} ${entry.tool} ${JSON.stringify(entry.args)}${recorded ? ` (${recorded})` : ""}`;
+}
+
+// Why an entry is not made again: background entries are not tool calls, and
+// masked arguments would type "[REDACTED:...]" instead of the secret
+function skipReason(entry: AuditEntry): string | undefined {
+  if (entry.background) {
+    return "the server typed this on its own, not a tool call";
+  }
+  if (entry.redacted) {
+    return `${entry.redacted} ${entry.redacted === 1 ? "secret was" : "secrets were"} masked in it`;
+  }
+  return undefined;
+}
+
+// Makes the tool calls of a recorded log again, in order, through a server on
+// the given backend, so the policy and protected tabs apply as they did then.
+// Prints each call with what it returned, and why entries were skipped. Session
+// IDs in the arguments only resolve if those sessions still exist.
+export async function replayAuditLog(
+  file: string,
+  backend: TerminalBackend,
+  serverOptions: ServerOptions,
+  options: ReplayOptions = {},
+  print: (line: string) => void = console.log
+) {
+  const entries = readAuditLog(file);
+  if (options.dryRun) {
+    entries.forEach((entry, index) => {
+      print(describeEntry(entry, index + 1, entries.length));
+      entry.input.forEach(({ session, text }) => print(`  typed into ${session}: ${JSON.stringify(text)}`));
+      const reason = skipReason(entry);
+      if (reason) {
+        print(`  would be skipped: ${reason}`);
+      }
+    });
+    return;
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = createServer(backend, serverOptions);
+  const client = new Client({ name: "mcp-iterm-replay", version: "0.0.0" }, { capabilities: {} });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  try {
+    for (const [index, entry] of entries.entries()) {
+      print(describeEntry(entry, index + 1, entries.length));
+      const reason = skipReason(entry);
+      if (reason) {
+        print(`  Skipped: ${reason}.`);
+        continue;
+      }
+      const result: any = await client.callTool({ name: entry.tool, arguments: entry.args });
+      const text = result.content.map((item: any) => item.text ?? "").join("\n");
+      print(text.split("\n").map((line: string) => line ? `  ${line}` : "").join("\n"));
+    }
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
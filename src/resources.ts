@@ -0,0 +1,124 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import crypto from 'node:crypto';
+import type { SessionInfo, TerminalBackend } from './backends/index.js';
+import { logMessage } from './logging.js';
+import type { Redactor } from './redaction.js';
+
+// ==================================================
+// Session Resources
+// ==================================================
+
+// How often subscribed sessions are checked for new output
+export const RESOURCE_POLL_INTERVAL_MS = 1000;
+
+export function sessionOutputUri(sessionId: string): string {
+  return `iterm://session/${encodeURIComponent(sessionId)}/output`;
+}
+
+function sessionIdOf(uri: string): string {
+  const match = uri.match(/^iterm:\/\/session\/([^/]+)\/output$/);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource ${uri}. Session output resources look like iterm://session/<id>/output.`);
+  }
+  return decodeURIComponent(match[1]);
+}
+
+function describeResource(session: SessionInfo): string {
+  return `Scrollback of window ${session.window}, tab ${session.index}, pane ${session.pane} (session ${session.id})`;
+}
+
+// Serves the scrollback of every session as a resource. Backends do not push
+// output, so subscribed sessions are polled and a resources/updated notification
+// goes out whenever their contents changed since the last check.
+export function registerResources(server: Server, backend: TerminalBackend, redactor: Redactor, intervalMs = RESOURCE_POLL_INTERVAL_MS) {
+  // Subscribed URIs with a hash of the contents last seen
+  const subscriptions = new Map<string, string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const fingerprint = (content: string) => crypto.createHash('sha1').update(content).digest('hex');
+
+  const poll = async () => {
+    for (const [uri, seen] of subscriptions) {
+      let current: string | undefined;
+      try {
+        current = fingerprint(await backend.readContents(sessionIdOf(uri)));
+      } catch {
+        // The session is gone: one last update lets the client find out on reading
+      }
+      if (!subscriptions.has(uri) || current === seen) {
+        continue;
+      }
+      if (current === undefined) {
+        subscriptions.delete(uri);
+      } else {
+        subscriptions.set(uri, current);
+      }
+      await server.sendResourceUpdated({ uri }).catch((error: any) => logMessage(`Error sending resource update for ${uri}: ${error.message}`));
+    }
+    schedule();
+  };
+
+  const schedule = () => {
+    timer = subscriptions.size > 0 ? setTimeout(poll, intervalMs) : undefined;
+    timer?.unref();
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const sessions = await backend.listSessions();
+    return {
+      resources: sessions.map(session => ({
+        uri: sessionOutputUri(session.id),
+        name: session.name,
+        description: describeResource(session),
+        mimeType: "text/plain"
+      }))
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const sessionId = sessionIdOf(uri);
+    let text: string;
+    try {
+      text = await backend.readContents(sessionId);
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InvalidParams, `Error reading ${uri}: ${error.message}`);
+    }
+    return { contents: [{ uri, mimeType: "text/plain", text: redactor.redact(text).text }] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const sessionId = sessionIdOf(uri);
+    if (!(await backend.listSessions()).some(s => s.id === sessionId)) {
+      throw new McpError(ErrorCode.InvalidParams, `Session ${sessionId} not found. It may have been closed.`);
+    }
+    if (!subscriptions.has(uri)) {
+      subscriptions.set(uri, fingerprint(await backend.readContents(sessionId)));
+    }
+    if (!timer) {
+      schedule();
+    }
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    clearTimeout(timer);
+    subscriptions.clear();
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,2540 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema, LoggingLevel, SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import fs from 'node:fs';
+import type { AuditLog } from './audit.js';
+import type { SessionInfo, SplitDirection, TerminalBackend } from './backends/index.js';
+import { quoteForShell } from './backends/shell.js';
+import { readSince } from './cursor.js';
+import { createJobRegistry, Job, JobRegistry } from './jobs.js';
+import { captureLayout, Layout, readLayout, writeLayout } from './layout.js';
+import { extractMarkedContent, generateMarker, sendMarkedCommand } from './markers.js';
+import { CommandPolicy, createCommandPolicy, PolicyConfig } from './policy.js';
+import { createWritableCheck, ProtectionConfig } from './protection.js';
+import { checkProbe, describeProbe, PROBE_ATTEMPT_TIMEOUT_MS, probeProblem, ProbeResult, ReadinessProbe } from './probe.js';
+import { CallContext, createCallContext, SILENT_CALL } from './progress.js';
+import { createRedactor, RedactionConfig, Redactor } from './redaction.js';
+import { registerResources } from './resources.js';
+import { createSupervisor, Supervised, SupervisionOptions, Supervisor } from './supervisor.js';
+import { logMessage } from './logging.js';
+import { loadWorkspace, Workspace, WorkspaceProcess } from './workspace.js';
+
+// ==================================================
+// Validation Utilities
+// ==================================================
+const validate = {
+  tabIndex: (tabIndex: any) => {
+    if (tabIndex === undefined) {
+      return { valid: false, error: "Error: tab parameter is required." };
+    }
+    
+    if (typeof tabIndex !== 'number' || tabIndex < 0 || !Number.isInteger(tabIndex)) {
+      return { 
+        valid: false, 
+        error: `Error: tab parameter must be a non-negative integer, got ${JSON.stringify(tabIndex)}` 
+      };
+    }
+    
+    return { valid: true };
+  },
+  
+  // A session id takes precedence, then a tab name; the tab index is only a fallback
+  target: (args: any) => {
+    const { session, name, tab, pane, window } = args || {};
+    if (session !== undefined) {
+      if (typeof session !== 'string' || session.trim() === '') {
+        return { valid: false, error: "Error: session parameter must be a non-empty string" };
+      }
+      return { valid: true };
+    }
+    
+    const paneValidation = validate.pane(pane);
+    if (!paneValidation.valid) {
+      return paneValidation;
+    }
+    
+    if (name !== undefined) {
+      return validate.name(name);
+    }
+    
+    if (tab === undefined) {
+      return { valid: false, error: "Error: tab, name or session parameter is required." };
+    }
+    
+    const windowValidation = validate.window(window);
+    if (!windowValidation.valid) {
+      return windowValidation;
+    }
+    
+    return validate.tabIndex(tab);
+  },
+  
+  pane: (pane: any) => {
+    if (pane !== undefined && (typeof pane !== 'number' || pane < 0 || !Number.isInteger(pane))) {
+      return { 
+        valid: false, 
+        error: `Error: pane parameter must be a non-negative integer, got ${JSON.stringify(pane)}` 
+      };
+    }
+    
+    return { valid: true };
+  },
+  
+  direction: (direction: any) => {
+    if (direction !== undefined && direction !== "horizontal" && direction !== "vertical") {
+      return { valid: false, error: 'Error: direction parameter must be "horizontal" or "vertical"' };
+    }
+    
+    return { valid: true };
+  },
+  
+  window: (window: any) => {
+    if (window !== undefined && (typeof window !== 'number' || window < 0 || !Number.isInteger(window))) {
+      return { 
+        valid: false, 
+        error: `Error: window parameter must be a non-negative integer, got ${JSON.stringify(window)}` 
+      };
+    }
+    
+    return { valid: true };
+  },
+  
+  name: (name: any, param = "name") => {
+    if (typeof name !== 'string' || name.trim() === '') {
+      return { valid: false, error: `Error: ${param} parameter must be a non-empty string` };
+    }
+    
+    return { valid: true };
+  },
+  
+  command: (command: any) => {
+    if (!command) {
+      return { valid: false, error: "Error: command parameter is required." };
+    }
+    
+    if (typeof command !== 'string' || command.trim() === '') {
+      return { valid: false, error: "Error: command parameter must be a non-empty string" };
+    }
+    
+    return { valid: true };
+  },
+  
+  confirm: (confirm: any) => {
+    if (confirm !== undefined && typeof confirm !== 'boolean') {
+      return { valid: false, error: "Error: confirm parameter must be true or false" };
+    }
+    
+    return { valid: true };
+  },
+  
+  file: (file: any) => {
+    if (typeof file !== 'string' || file.trim() === '') {
+      return { valid: false, error: "Error: file parameter is required." };
+    }
+    
+    return { valid: true };
+  },
+  
+  job: (job: any) => {
+    if (typeof job !== 'string' || job.trim() === '') {
+      return { valid: false, error: "Error: job parameter is required, e.g. \"job-1\"." };
+    }
+    
+    return { valid: true };
+  },
+  
+  supervised: (id: any) => {
+    if (typeof id !== 'string' || id.trim() === '') {
+      return { valid: false, error: "Error: id parameter is required, e.g. \"sup-1\"." };
+    }
+    
+    return { valid: true };
+  },
+  
+  waitTime: (waitTime: any) => {
+    if (waitTime !== undefined && (typeof waitTime !== 'number' || waitTime < 0)) {
+      return { 
+        valid: false, 
+        error: "Error: wait parameter must be a non-negative number" 
+      };
+    }
+    
+    return { valid: true };
+  },
+  
+  interval: (interval: any) => {
+    if (interval !== undefined && (typeof interval !== 'number' || interval <= 0)) {
+      return { valid: false, error: "Error: pollInterval parameter must be a positive number" };
+    }
+    
+    return { valid: true };
+  },
+  
+  seconds: (seconds: any, name: string) => {
+    if (seconds !== undefined && (typeof seconds !== 'number' || seconds < 0)) {
+      return { valid: false, error: `Error: ${name} parameter must be a non-negative number` };
+    }
+    
+    return { valid: true };
+  },
+  
+  lines: (lines: any, name = "lines") => {
+    if (lines !== undefined && (typeof lines !== 'number' || lines < 0 || !Number.isInteger(lines))) {
+      return { 
+        valid: false, 
+        error: `Error: ${name} parameter must be a non-negative integer` 
+      };
+    }
+    
+    return { valid: true };
+  },
+  
+  // Options for supervising a command, with their defaults filled in
+  supervise: (supervise: any) => {
+    if (typeof supervise !== 'object' || supervise === null || Array.isArray(supervise)) {
+      return { valid: false, error: 'Error: supervise parameter must be an object such as { "restart": "on-failure" }' };
+    }
+    
+    const { restart = "on-failure", maxRestarts = 5, backoff = 1, crashPattern } = supervise;
+    if (!["never", "on-failure", "always"].includes(restart)) {
+      return { valid: false, error: 'Error: supervise.restart must be "never", "on-failure" or "always"' };
+    }
+    if (typeof maxRestarts !== 'number' || maxRestarts < 0 || !Number.isInteger(maxRestarts)) {
+      return { valid: false, error: `Error: supervise.maxRestarts must be a non-negative integer, got ${JSON.stringify(maxRestarts)}` };
+    }
+    if (typeof backoff !== 'number' || backoff < 0) {
+      return { valid: false, error: "Error: supervise.backoff must be a non-negative number of seconds" };
+    }
+    if (crashPattern !== undefined && (typeof crashPattern !== 'string' || crashPattern === '')) {
+      return { valid: false, error: "Error: supervise.crashPattern must be a non-empty string" };
+    }
+    
+    const options: SupervisionOptions = { restart, maxRestarts, backoff, ...(crashPattern !== undefined ? { crashPattern } : {}) };
+    return { valid: true, options };
+  },
+  
+  letter: (letter: any) => {
+    if (!letter) {
+      return { valid: false, error: "Error: letter parameter is required." };
+    }
+    
+    const upperLetter = letter.toUpperCase();
+    if (!/^[A-Z]$/.test(upperLetter)) {
+      return { valid: false, error: "Error: Letter must be a single character from A-Z." };
+    }
+    
+    return { valid: true, upperLetter };
+  }
+};
+
+// ==================================================
+// Response Helpers
+// ==================================================
+const createResponse = {
+  success: (text: string) => ({ content: [{ type: "text", text }] }),
+  
+  error: (error: any) => ({ 
+    content: [{ type: "text", text: typeof error === 'string' ? error : `Error: ${error.message}` }] 
+  })
+};
+
+// ==================================================
+// General Utilities
+// ==================================================
+function trimOutput(content: string, maxSize = 5000): string {
+  return content.length <= maxSize
+    ? content
+    : content.substring(0, maxSize) + "\n\n[Note: Output exceeded maximum size and was trimmed]";
+}
+
+// How often waiting tools re-read a session
+const POLL_INTERVAL_MS = 250;
+
+// Shorter pollInterval values are raised to this; each check reads the whole
+// session, which takes an osascript or tmux process with those backends
+const MIN_POLL_INTERVAL_MS = 100;
+
+// How often readiness probes are attempted
+const PROBE_INTERVAL_MS = 500;
+
+// How long an initial command may take to show up in the prompt hooks' reports
+const HOOK_REPORT_TIMEOUT_MS = 2000;
+
+// How much of the end of a snapshot of a session's contents is looked for to
+// tell what was printed after it
+const SNAPSHOT_END_LENGTH = 200;
+
+// ==================================================
+// Marked Commands
+// ==================================================
+
+// Shell integration reports a marked command as the whole line that was typed;
+// returns the command inside it and its marker, or the line itself if unmarked
+function unwrapMarkedCommand(line: string): { command: string, marker?: string } {
+  const match = line.match(/^echo "(===[0-9a-f]{8}-\d+===)-START"; (.*); RESULT=\$\?; echo "\1-END:\$RESULT"$/);
+  return match ? { command: match[2], marker: match[1] } : { command: line };
+}
+
+// What a session printed after an earlier snapshot of its contents, for
+// unmarked commands. History trimmed at the top since then moves everything
+// up, so the snapshot's end is looked for no later than where it was.
+function printedAfter(before: string, content: string): string {
+  const end = before.slice(-SNAPSHOT_END_LENGTH);
+  const at = content.lastIndexOf(end, before.length - end.length);
+  return at === -1 ? content : content.slice(at + end.length);
+}
+
+// "Command Running" and "Last Command" lines for a session. The exit code the
+// shell reports for a marked command is that of its closing echo, so the real
+// one is read from the END marker in the contents instead.
+function describeCommandState(session: SessionInfo, content: string): string {
+  const state = session.commandState;
+  if (!state) {
+    return `Command Running: ${session.isRunning ? "unknown (detected via content)" : "none"}`;
+  }
+  const { command, marker } = unwrapMarkedCommand(state.command || "");
+  if (state.status === "running") {
+    return `Command Running: ${command || "unknown"}`;
+  }
+  if (!command) {
+    return "Command Running: none";
+  }
+  const endMatch = marker ? content.match(new RegExp(`${marker}-END:(\\d+)`)) : null;
+  const exitCode = endMatch ? parseInt(endMatch[1], 10) : state.exitCode;
+  return `Command Running: none\nLast Command: ${command}${exitCode !== undefined ? ` (exit code ${exitCode})` : ""}`;
+}
+
+// One line on where a job stands, e.g. `job-2 finished with exit code 0 after 3.10 seconds`
+function describeJobStatus(job: Job): string {
+  const seconds = (((job.endedAt || new Date()).getTime() - job.startedAt.getTime()) / 1000).toFixed(2);
+  switch (job.status) {
+    case "running": return `${job.id} running for ${seconds} seconds`;
+    case "finished": return `${job.id} finished with exit code ${job.exitCode} after ${seconds} seconds`;
+    case "interrupted": return `${job.id} interrupted after ${seconds} seconds (back at the prompt without finishing${job.exitCode !== undefined ? `, exit code ${job.exitCode}` : ""})`;
+    case "lost": return `${job.id} lost after ${seconds} seconds (its session was closed before it finished)`;
+  }
+}
+
+function describeJob(job: Job): string {
+  return `${describeJobStatus(job)}: "${job.command}" in session ${job.sessionId}, started ${job.startedAt.toISOString()}`;
+}
+
+// e.g. `sup-1 restarting (exited with code 1, restarting after 2 seconds): "npm run dev" in session pty-2, 1 of at most 5 restarts (restart: on-failure), current job job-2`
+function describeSupervised(entry: Supervised): string {
+  const { restart, maxRestarts } = entry.options;
+  const status = entry.statusDetail ? `${entry.status} (${entry.statusDetail})` : entry.status;
+  return `${entry.id} ${status}: "${entry.command}" in session ${entry.sessionId}, ${entry.restarts} of at most ${maxRestarts} restarts (restart: ${restart}), current job ${entry.job.id}`;
+}
+
+// What a run tool says about a command it put under supervision
+function describeSupervision(entry: Supervised): string {
+  const { restart, maxRestarts } = entry.options;
+  return restart === "never"
+    ? `Supervised as ${entry.id}, which records how it ends without restarting it.`
+    : `Supervised as ${entry.id}: restarted ${restart === "always" ? "whenever it ends" : "when it fails"}, at most ${maxRestarts} times.`;
+}
+
+function describeRestartHistory(entry: Supervised): string {
+  if (entry.history.length === 0) {
+    return "History: no exits so far";
+  }
+  const events = entry.history.map(event => {
+    const outcome = event.restartedAs
+      ? `restarted as ${event.restartedAs} after ${event.delay} seconds`
+      : event.delay !== undefined ? `restarting after ${event.delay} seconds` : "not restarted";
+    return `  ${event.at.toISOString()} ${event.jobId} ${event.reason}, ${outcome}`;
+  });
+  return `History:\n${events.join("\n")}`;
+}
+
+function describeJobOutput(output: string, lines: number): string {
+  const lastLines = output.replace(/^\n+/, "").trimEnd().split("\n").slice(-lines).join("\n");
+  return `Output (last ${lines} lines):\n\n${trimOutput(lastLines)}`;
+}
+
+// ==================================================
+// Session Resolution
+// ==================================================
+
+// How responses refer to the target the caller asked for
+function describeTarget(args: any): string {
+  const { session, name, tab, pane, window } = args || {};
+  if (session !== undefined) {
+    return `session ${session}`;
+  }
+  const described = name !== undefined
+    ? `tab "${name}"`
+    : window !== undefined ? `tab ${tab} in window ${window}` : `tab ${tab}`;
+  return pane !== undefined ? `pane ${pane} of ${described}` : described;
+}
+
+// Picks a pane of a tab: the requested one, or else the active one
+function selectPane(panes: SessionInfo[], pane: number | undefined): SessionInfo {
+  if (pane === undefined) {
+    return panes.find(p => p.active) || panes[0];
+  }
+  if (pane >= panes.length) {
+    throw new Error(`Pane index ${pane} is out of bounds. The tab has only ${panes.length} panes.`);
+  }
+  return panes[pane];
+}
+
+// All panes in the same tab as a session, itself included
+function panesOf(sessions: SessionInfo[], session: SessionInfo): SessionInfo[] {
+  return sessions.filter(s => s.window === session.window && s.index === session.index);
+}
+
+// Finds the session a tool call addresses, by stable id, by name, or else by tab
+// position within a window (default: the first one). Names and tab positions pick
+// the active pane of the tab unless a pane index is given.
+async function resolveSession(backend: TerminalBackend, args: any): Promise<SessionInfo> {
+  const sessions = await backend.listSessions();
+
+  if (args.session !== undefined) {
+    const session = sessions.find(s => s.id === args.session);
+    if (!session) {
+      throw new Error(`Session ${args.session} not found. It may have been closed.`);
+    }
+    return session;
+  }
+
+  if (args.name !== undefined) {
+    const matches = sessions.filter(s => s.name === args.name);
+    if (matches.length === 0) {
+      throw new Error(`No tab is named "${args.name}".`);
+    }
+    const tabCount = new Set(matches.map(s => `${s.window}:${s.index}`)).size;
+    if (tabCount > 1) {
+      throw new Error(`${tabCount} tabs are named "${args.name}" (sessions ${matches.map(s => s.id).join(", ")}). Use a session ID instead.`);
+    }
+    // A uniquely named pane is meant by itself; panes sharing their tab's name stand for the tab
+    if (matches.length === 1 && args.pane === undefined) {
+      return matches[0];
+    }
+    return selectPane(panesOf(sessions, matches[0]), args.pane);
+  }
+
+  const window = args.window ?? 0;
+  const windowCount = new Set(sessions.map(s => s.window)).size;
+  if (window >= windowCount) {
+    throw new Error(`Window ${window} does not exist. There are only ${windowCount} windows.`);
+  }
+
+  const inWindow = sessions.filter(s => s.window === window);
+  const tabCount = new Set(inWindow.map(s => s.index)).size;
+  if (args.tab >= tabCount) {
+    throw new Error(`Tab index ${args.tab} is out of bounds. There are only ${tabCount} tabs${args.window !== undefined ? ` in window ${window}` : ""}.`);
+  }
+  return selectPane(inWindow.filter(s => s.index === args.tab), args.pane);
+}
+
+// One line per pane for listings
+function describePane(pane: SessionInfo, isProtected = false): string {
+  const state = `${pane.active ? ", active" : ""}${pane.isRunning ? ", running" : ""}${isProtected ? ", protected" : ""}`;
+  return `Pane ${pane.pane}: ${pane.name} (session ${pane.id}, ${pane.columns}x${pane.rows}${state})`;
+}
+
+// Names are only useful for addressing while they are unique
+async function ensureNameAvailable(backend: TerminalBackend, name: string, exceptSessionId?: string) {
+  const existing = (await backend.listSessions()).find(s => s.name === name && s.id !== exceptSessionId);
+  if (existing) {
+    throw new Error(`A tab named "${name}" already exists (${describeSession(existing)}).`);
+  }
+}
+
+// Human-readable position of a session; the pane only matters in split tabs
+function describeSession(session: SessionInfo): string {
+  const pane = session.pane > 0 ? `, pane ${session.pane}` : "";
+  return `window ${session.window}, tab ${session.index}${pane}, session ${session.id}`;
+}
+
+// Waits for ms milliseconds, or until the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Reads a session every intervalMs until check returns a result, the timeout
+// passes or the signal aborts; returns undefined in the latter two cases
+async function pollContent<T>(
+  backend: TerminalBackend,
+  sessionId: string,
+  timeoutMs: number,
+  intervalMs: number,
+  check: (content: string) => T | undefined,
+  signal?: AbortSignal
+): Promise<T | undefined> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const result = check(await backend.readContents(sessionId));
+    if (result !== undefined || Date.now() >= deadline || signal?.aborted) {
+      return result;
+    }
+    await sleep(Math.min(intervalMs, Math.max(0, deadline - Date.now())), signal);
+    if (signal?.aborted) {
+      return undefined;
+    }
+  }
+}
+
+// Attempts a probe every intervalMs until it succeeds, the timeout passes or the
+// signal aborts. Before each attempt, stop can end the wait early by returning true.
+async function pollProbe(
+  probe: ReadinessProbe,
+  timeoutMs: number,
+  intervalMs: number,
+  stop: () => Promise<boolean>,
+  signal?: AbortSignal
+): Promise<ProbeResult & { stopped: boolean }> {
+  const deadline = Date.now() + timeoutMs;
+  let result: ProbeResult = { ready: false, detail: "not attempted" };
+  while (true) {
+    if (await stop()) {
+      return { ...result, stopped: true };
+    }
+    result = await checkProbe(probe, Math.max(100, Math.min(PROBE_ATTEMPT_TIMEOUT_MS, deadline - Date.now())));
+    if (result.ready || Date.now() >= deadline || signal?.aborted) {
+      return { ...result, stopped: false };
+    }
+    await sleep(Math.min(intervalMs, Math.max(0, deadline - Date.now())), signal);
+    if (signal?.aborted) {
+      return { ...result, stopped: false };
+    }
+  }
+}
+
+// Utility to get content for a specific session
+async function getTabContent(backend: TerminalBackend, sessionId: string): Promise<string> {
+    const content = await backend.readContents(sessionId);
+    return content;
+}
+
+// Utility to get detailed info for all tabs, optionally of a single window
+async function getAllTabInfo(backend: TerminalBackend, window?: number) {
+    const sessions = (await backend.listSessions()).filter(s => window === undefined || s.window === window);
+    const tabs = [];
+    for (const session of sessions) {
+        try {
+            const content = await backend.readContents(session.id);
+            tabs.push({ ...session, content });
+        } catch (tabError: any) {
+            tabs.push({ ...session, content: `Error accessing tab: ${tabError.message}` });
+        }
+    }
+    return tabs;
+}
+
+// ==================================================
+// Command Implementations
+// ==================================================
+function createCommands(
+  backend: TerminalBackend,
+  jobs: JobRegistry,
+  supervisor: Supervisor,
+  policy: CommandPolicy,
+  writable: ReturnType<typeof createWritableCheck>,
+  redactor: Redactor
+) {
+  // Options shared by the tools that open a session
+  const validateSessionSetup = ({ name, cwd, command, confirm }: any, nameParam = "name") => {
+    if (name !== undefined) {
+      const nameValidation = validate.name(name, nameParam);
+      if (!nameValidation.valid) {
+        return nameValidation;
+      }
+    }
+    if (cwd !== undefined && (typeof cwd !== 'string' || cwd.trim() === '')) {
+      return { valid: false, error: "Error: cwd parameter must be a non-empty string" };
+    }
+    const confirmValidation = validate.confirm(confirm);
+    if (!confirmValidation.valid) {
+      return confirmValidation;
+    }
+    return command !== undefined ? validate.command(command) : { valid: true };
+  };
+  
+  // Why the policy keeps a command from being typed into a session, or
+  // undefined when it may run
+  const policyViolation = (command: string, session: { id?: string, name?: string }, confirm = false) => {
+    const decision = policy.check(command, session);
+    if (decision.action === "allow" || (decision.action === "confirm" && confirm)) {
+      return undefined;
+    }
+    return decision.action === "deny"
+      ? `"${command}" is blocked because ${decision.reason}`
+      : `"${command}" needs confirm: true because ${decision.reason}`;
+  };
+  
+  // Violations are logged as well, for whoever reviews what the agent tried
+  const refuse = (message: string) => {
+    logMessage(message);
+    return createResponse.error(`Error: ${message}`);
+  };
+  
+  const refuseProtected = (session: SessionInfo, target: string, outcome: string) =>
+    refuse(`${target} is protected: session ${session.id} was not opened by this server. ${outcome} ` +
+      `The user can make it writable by adding "${writable.marker}" to the tab's name or listing it under protection.writable in the config file.`);
+
+  // Sessions this server opened, which it may close without being forced
+  const openedSessions = new Set<string>();
+  // The last command the server typed into each session, with the marker it
+  // was wrapped in, or else what the session showed before it was typed
+  const lastCommands = new Map<string, { command: string, marker?: string, contentBefore?: string }>();
+
+  // Sessions the server did not open are only read unless the user marked them
+  // writable, so nothing is typed into their SSH session into production
+  const isProtected = (session: SessionInfo) =>
+    backend.foreignSessions && !openedSessions.has(session.id) && !session.openedByServer && !writable.isMarked(session);
+  
+  // A restarted command is the one to follow in its session from then on
+  supervisor.onRestart((previous, next) => {
+    if (lastCommands.get(next.sessionId)?.marker === previous.marker) {
+      lastCommands.set(next.sessionId, { command: next.command, marker: next.marker });
+    }
+  });
+
+  // How each pane the server split off was split, for layout snapshots
+  const splitDirections = new Map<string, SplitDirection>();
+  const splitPane = async (sessionId: string, direction: SplitDirection, options: { name?: string, cwd?: string }) => {
+    const pane = await backend.splitSession(sessionId, direction, options);
+    splitDirections.set(pane.id, direction);
+    return pane;
+  };
+
+  // Records a session the server opened and types its initial command; not
+  // marked, since it usually keeps running (a dev server, a watcher, ...)
+  const setUpSession = async (session: SessionInfo, command?: string, signal?: AbortSignal) => {
+    openedSessions.add(session.id);
+    if (command === undefined) {
+      return "";
+    }
+    const contentBefore = await backend.readContents(session.id);
+    await backend.writeText(session.id, command);
+    lastCommands.set(session.id, { command, contentBefore });
+    await waitForHookReport(session, signal);
+    return ` Started: ${command}`;
+  };
+
+  // The prompt hooks report a typed command once the shell reads it, and until
+  // then the session still looks idle. Like installing the hooks, wait for that
+  // report (any change from the state before), so a tab that was just given a
+  // command is not closed as idle. Sessions without hooks are guessed at anyway,
+  // and a cancelled call stops waiting.
+  const waitForHookReport = async (before: SessionInfo, signal?: AbortSignal) => {
+    if (!before.commandState) {
+      return;
+    }
+    const reported = JSON.stringify(before.commandState);
+    const deadline = Date.now() + HOOK_REPORT_TIMEOUT_MS;
+    while (Date.now() < deadline && !signal?.aborted) {
+      const session = (await backend.listSessions()).find(s => s.id === before.id);
+      if (!session || JSON.stringify(session.commandState) !== reported) {
+        return;
+      }
+      await sleep(100, signal);
+    }
+  };
+
+  // Polls until the session is back at its prompt or the deadline passes
+  const waitUntilIdle = async (sessionId: string, timeoutMs: number) => {
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+      const session = (await backend.listSessions()).find(s => s.id === sessionId);
+      if (!session || !session.isRunning) {
+        return true;
+      }
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  };
+
+  // The client gets no response to a cancelled call, so what was interrupted is
+  // logged as well as returned. Protected sessions are never interrupted, since
+  // a Control-C is as much a write as a command.
+  const cancelled = async (sessionId: string, target: string, what: string, startedAt: number, interrupt: boolean) => {
+    const elapsed = ((Date.now() - startedAt) / 1000).toFixed(2);
+    let message = `Cancelled after waiting ${elapsed} seconds for ${what} in ${target}.`;
+    const session = interrupt ? (await backend.listSessions()).find(s => s.id === sessionId) : undefined;
+    if (session && isProtected(session)) {
+      message += ` ${target} is protected, so no Control-C was sent and whatever runs there was left running.`;
+    } else if (interrupt) {
+      await backend.sendKeys(sessionId, String.fromCharCode(3));
+      message += ` Sent Control-C to ${target} to interrupt it.`;
+    } else {
+      message += ` Whatever runs in ${target} was left running.`;
+    }
+    logMessage(message);
+    return createResponse.error(message);
+  };
+
+  // Waits for a server started in a session to pass a readiness probe, feeding
+  // the session's output to the progress reports. Gives up early when the marked
+  // command there ends, since then nothing is left to become ready.
+  const waitForProbe = async (sessionId: string, probe: ReadinessProbe, timeout: number, call: CallContext, marker?: string) => {
+    const report = call.reporter(`Waiting for ${describeProbe(probe)}`, timeout);
+    const startedAt = Date.now();
+    let exitCode: number | undefined;
+    const result = await pollProbe(probe, timeout * 1000, PROBE_INTERVAL_MS, async () => {
+      const content = await backend.readContents(sessionId);
+      report(marker ? extractMarkedContent(content, marker).content : content);
+      // The END marker alone, like the job registry, in case the START marker
+      // did not make it to the beginning of a line
+      const end = marker ? content.match(new RegExp(`${marker}-END:(\\d+)`)) : null;
+      if (end) {
+        exitCode = parseInt(end[1], 10);
+        return true;
+      }
+      return false;
+    }, call.signal);
+    return { ...result, exitCode, startedAt, seconds: (Date.now() - startedAt) / 1000 };
+  };
+  
+  // Why a probe did not pass, with the last lines of the session
+  const describeProbeFailure = async (
+    sessionId: string,
+    target: string,
+    probe: ReadinessProbe,
+    timeout: number,
+    outcome: Awaited<ReturnType<typeof waitForProbe>>,
+    lines: number
+  ) => {
+    const what = describeProbe(probe);
+    const lastAttempt = outcome.detail ? ` (last attempt: ${outcome.detail})` : "";
+    const reason = outcome.exitCode !== undefined
+      ? `The command exited with code ${outcome.exitCode} before ${what} was ready${lastAttempt}.`
+      : `${what} was not ready within ${timeout} seconds${lastAttempt}.`;
+    const content = await backend.readContents(sessionId);
+    const lastLines = content.trimEnd().split("\n").slice(-lines).join("\n");
+    return `${reason} Last output of ${target}:\n\n${trimOutput(lastLines)}`;
+  };
+
+  return {
+    // Creates a new tab, optionally named and starting a command
+    async createNewTab(args: any, call: CallContext = SILENT_CALL) {
+      const { window, name, cwd, command } = args || {};
+      
+      const windowValidation = validate.window(window);
+      if (!windowValidation.valid) {
+        return createResponse.error(windowValidation.error);
+      }
+      
+      const setupValidation = validateSessionSetup(args || {});
+      if (!setupValidation.valid) {
+        return createResponse.error(setupValidation.error);
+      }
+      
+      const violation = command !== undefined ? policyViolation(command, { name }, args.confirm) : undefined;
+      if (violation) {
+        return refuse(`Policy violation: ${violation}. No tab was opened.`);
+      }
+      
+      try {
+        if (name !== undefined) {
+          await ensureNameAvailable(backend, name);
+        }
+        const session = await backend.createSession({ window, name, cwd });
+        return createResponse.success(`New tab created successfully (${describeSession(session)}).${await setUpSession(session, command, call.signal)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error creating new tab: ${error.message}`);
+      }
+    },
+    
+    // Creates a new window, optionally naming and starting a command in its first tab
+    async createNewWindow(args: any, call: CallContext = SILENT_CALL) {
+      const { name, cwd, command } = args || {};
+      
+      const setupValidation = validateSessionSetup(args || {});
+      if (!setupValidation.valid) {
+        return createResponse.error(setupValidation.error);
+      }
+      
+      const violation = command !== undefined ? policyViolation(command, { name }, args.confirm) : undefined;
+      if (violation) {
+        return refuse(`Policy violation: ${violation}. No window was opened.`);
+      }
+      
+      try {
+        if (name !== undefined) {
+          await ensureNameAvailable(backend, name);
+        }
+        const session = await backend.createWindow({ name, cwd });
+        return createResponse.success(`New window created successfully (${describeSession(session)}).${await setUpSession(session, command, call.signal)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error creating new window: ${error.message}`);
+      }
+    },
+    
+    // Renames a tab so it can be addressed by name
+    async renameTab(args: any) {
+      const { newName } = args || {};
+      
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+      
+      const nameValidation = validate.name(newName, "newName");
+      if (!nameValidation.valid) {
+        return createResponse.error(nameValidation.error);
+      }
+      
+      try {
+        const session = await resolveSession(backend, args);
+        if (isProtected(session)) {
+          return refuseProtected(session, target, "It was not renamed.");
+        }
+        // Session rules follow the name, so renaming would lift or move them
+        const ruled = session.name !== newName ? [session.name, newName].find(name => policy.hasSessionRules(name)) : undefined;
+        if (ruled !== undefined) {
+          return refuse(`Policy violation: ${target} cannot be renamed to "${newName}" because policy.sessions has rules for "${ruled}". It was not renamed.`);
+        }
+        await ensureNameAvailable(backend, newName, session.id);
+        await backend.renameSession(session.id, newName);
+        return createResponse.success(`Renamed ${target} to "${newName}" (${describeSession(session)}).`);
+      } catch (error: any) {
+        return createResponse.error(`Error renaming ${target}: ${error.message}`);
+      }
+    },
+    
+    // Lists windows with their tabs
+    async listWindows() {
+      try {
+        const sessions = await backend.listSessions();
+        const windows = [...new Set(sessions.map(s => s.window))];
+        
+        // A tab is listed by its active pane; split tabs list all their panes below it
+        const formattedOutput = windows.map(window => {
+          const tabs = sessions.filter(s => s.window === window && s.pane === 0).map(first => {
+            const panes = panesOf(sessions, first);
+            const tab = selectPane(panes, undefined);
+            const line = `  Tab ${tab.index}: ${tab.name} (session ${tab.id}${tab.isRunning ? ", running" : ""}${isProtected(tab) ? ", protected" : ""})`;
+            return panes.length > 1 ? [line, ...panes.map(pane => `    ${describePane(pane, isProtected(pane))}`)].join("\n") : line;
+          });
+          return `Window ${window}:\n${tabs.join("\n")}`;
+        }).join("\n\n");
+        
+        return createResponse.success(formattedOutput || "No windows are open.");
+      } catch (error: any) {
+        return createResponse.error(`Error listing windows: ${error.message}`);
+      }
+    },
+  
+
+
+    // Closes a tab or pane, optionally interrupting what runs in it first
+    async closeTab(args: any) {
+      const { interrupt = false, grace = 5, force = false } = args || {};
+      
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+      
+      const graceValidation = validate.seconds(grace, "grace");
+      if (!graceValidation.valid) {
+        return createResponse.error(graceValidation.error);
+      }
+      
+      try {
+        const session = await resolveSession(backend, args);
+        if (isProtected(session)) {
+          return refuseProtected(session, target, "It was left open.");
+        }
+        if (!openedSessions.has(session.id) && !force) {
+          return createResponse.error(`Error closing ${target}: session ${session.id} was not opened by this server. Pass force: true to close it anyway.`);
+        }
+        
+        let report = "It was idle.";
+        if (session.isRunning) {
+          const command = lastCommands.has(session.id) ? `"${lastCommands.get(session.id)!.command}"` : "a command not started by this server";
+          const lastLines = (await backend.readContents(session.id)).trimEnd().split("\n").slice(-5).join("\n");
+          report = `It was still running ${command}.`;
+          if (interrupt) {
+            await backend.sendKeys(session.id, "\x03");
+            report = await waitUntilIdle(session.id, grace * 1000)
+              ? `It was running ${command}, which stopped after Control-C.`
+              : `It was running ${command}, which did not stop within ${grace} seconds of Control-C.`;
+          }
+          report += ` Last output:\n\n${trimOutput(lastLines)}`;
+        }
+        
+        await backend.closeSession(session.id);
+        openedSessions.delete(session.id);
+        lastCommands.delete(session.id);
+        return createResponse.success(`Closed ${target} (${describeSession(session)}). ${report}`);
+      } catch (error: any) {
+        return createResponse.error(`Error closing ${target}: ${error.message}`);
+      }
+    },
+    
+    // Waits until a pattern shows up in a session, the last command there ends,
+    // or the timeout passes
+    async waitForOutput(args: any, call: CallContext = SILENT_CALL) {
+      const { pattern, regex = false, timeout = 30, context = 5, interruptOnCancel = false } = args || {};
+      
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+      
+      if (pattern !== undefined && (typeof pattern !== 'string' || pattern === '')) {
+        return createResponse.error("Error: pattern parameter must be a non-empty string");
+      }
+      
+      const timeoutValidation = validate.seconds(timeout, "timeout");
+      if (!timeoutValidation.valid) {
+        return createResponse.error(timeoutValidation.error);
+      }
+      
+      const contextValidation = validate.lines(context, "context");
+      if (!contextValidation.valid) {
+        return createResponse.error(contextValidation.error);
+      }
+      
+      let matches: (line: string) => boolean = () => false;
+      if (pattern !== undefined) {
+        try {
+          const expression = regex ? new RegExp(pattern) : null;
+          matches = expression ? line => expression.test(line) : line => line.includes(pattern);
+        } catch (error: any) {
+          return createResponse.error(`Error: pattern is not a valid regular expression: ${error.message}`);
+        }
+      }
+      
+      try {
+        const session = await resolveSession(backend, args);
+        const last = lastCommands.get(session.id);
+        const marker = last?.marker;
+        if (pattern === undefined && !marker) {
+          return createResponse.error(`Error: pattern is required, since no command this server started is running in ${target}.`);
+        }
+        
+        // Old scrollback (say, the previous run of the same server) must not
+        // match. Only the output of the last marked command counts, or what
+        // showed up after the server typed an unmarked one, except the typed
+        // line itself; failing both, only what is printed from now on.
+        const before = marker ? "" : last?.contentBefore ?? await backend.readContents(session.id);
+        const typed = marker ? undefined : last?.command;
+        const startedAt = Date.now();
+        const report = call.reporter(`Waiting for ${pattern !== undefined ? `"${pattern}"` : "the command to finish"} in ${target}`, timeout);
+        const outcome = await pollContent(backend, session.id, timeout * 1000, POLL_INTERVAL_MS, content => {
+          const { content: output, exitCode } = marker ? extractMarkedContent(content, marker) : { content: printedAfter(before, content), exitCode: -1 };
+          report(output);
+          const lines = output.split("\n").filter(line => !typed || !line.includes(typed));
+          const index = lines.findIndex(matches);
+          if (index !== -1) {
+            return { lines, index, exitCode: -1 };
+          }
+          return exitCode !== -1 ? { lines, index, exitCode } : undefined;
+        }, call.signal);
+        const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
+        const what = pattern !== undefined ? `"${pattern}"` : "the command to finish";
+        
+        if (!outcome && call.signal?.aborted) {
+          return await cancelled(session.id, target, what, startedAt, interruptOnCancel);
+        }
+        
+        if (!outcome) {
+          const content = await backend.readContents(session.id);
+          const lastLines = content.trimEnd().split("\n").slice(-context - 1).join("\n");
+          return createResponse.success(`Timed out after ${timeout} seconds waiting for ${what} in ${target}. Last output:\n\n${trimOutput(lastLines)}`);
+        }
+        
+        if (outcome.index === -1) {
+          const lastLines = outcome.lines.slice(-context - 1).join("\n");
+          const message = pattern !== undefined
+            ? `Command finished in ${target} with exit code ${outcome.exitCode} after ${elapsed} seconds without printing ${what}.`
+            : `Command finished in ${target} with exit code ${outcome.exitCode} after ${elapsed} seconds.`;
+          return createResponse.success(`${message} Last output:\n\n${trimOutput(lastLines)}`);
+        }
+        
+        const surrounding = outcome.lines.slice(Math.max(0, outcome.index - context), outcome.index + context + 1).join("\n").replace(/^\n+/, "").trimEnd();
+        return createResponse.success(`Found ${what} in ${target} after ${elapsed} seconds.\nMatched line: ${outcome.lines[outcome.index]}\n\nContext:\n\n${trimOutput(surrounding)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error waiting for output in ${target}: ${error.message}`);
+      }
+    },
+    
+    // Waits until a server answers on a port or URL. Gives up early when the
+    // command this server last started in the session ends.
+    async waitForReady(args: any, call: CallContext = SILENT_CALL) {
+      const { port, url, status, timeout = 60, lines = 20, interruptOnCancel = false } = args || {};
+      
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+      
+      const problem = probeProblem({ port, url, status });
+      if (problem) {
+        return createResponse.error(`Error: ${problem}`);
+      }
+      
+      const timeoutValidation = validate.seconds(timeout, "timeout");
+      if (!timeoutValidation.valid) {
+        return createResponse.error(timeoutValidation.error);
+      }
+      
+      const linesValidation = validate.lines(lines);
+      if (!linesValidation.valid) {
+        return createResponse.error(linesValidation.error);
+      }
+      
+      try {
+        const session = await resolveSession(backend, args);
+        const probe: ReadinessProbe = { port, url, status };
+        // A command that already ended before the wait cannot end it early
+        let marker = lastCommands.get(session.id)?.marker;
+        if (marker && new RegExp(`${marker}-END:\\d+`).test(await backend.readContents(session.id))) {
+          marker = undefined;
+        }
+        
+        const outcome = await waitForProbe(session.id, probe, timeout, call, marker);
+        if (!outcome.ready && call.signal?.aborted) {
+          return await cancelled(session.id, target, describeProbe(probe), outcome.startedAt, interruptOnCancel);
+        }
+        if (!outcome.ready) {
+          return createResponse.error(await describeProbeFailure(session.id, target, probe, timeout, outcome, lines));
+        }
+        return createResponse.success(`${describeProbe(probe)} is ready after ${outcome.seconds.toFixed(1)} seconds (${outcome.detail}).`);
+      } catch (error: any) {
+        return createResponse.error(`Error waiting for readiness of ${target}: ${error.message}`);
+      }
+    },
+    
+    // Splits a pane, optionally naming and starting a command in the new one
+    async splitPane(args: any, call: CallContext = SILENT_CALL) {
+      const { direction = "vertical", newName, cwd, command, confirm } = args || {};
+      
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+      
+      const directionValidation = validate.direction(direction);
+      if (!directionValidation.valid) {
+        return createResponse.error(directionValidation.error);
+      }
+      
+      const setupValidation = validateSessionSetup({ name: newName, cwd, command, confirm }, "newName");
+      if (!setupValidation.valid) {
+        return createResponse.error(setupValidation.error);
+      }
+      
+      try {
+        const session = await resolveSession(backend, args);
+        // Without a name of its own the pane goes by its tab's name, and its rules
+        const violation = command !== undefined ? policyViolation(command, { name: newName ?? session.name }, confirm) : undefined;
+        if (violation) {
+          return refuse(`Policy violation: ${violation}. ${target} was not split.`);
+        }
+        if (newName !== undefined) {
+          await ensureNameAvailable(backend, newName);
+        }
+        const pane = await splitPane(session.id, direction, { name: newName, cwd });
+        return createResponse.success(`New pane created successfully (${describeSession(pane)}).${await setUpSession(pane, command, call.signal)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error splitting ${target}: ${error.message}`);
+      }
+    },
+    
+    // Lists the panes of one tab with their sizes
+    async listPanes(args: any) {
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+      
+      try {
+        const sessions = await backend.listSessions();
+        const session = await resolveSession(backend, args);
+        const panes = panesOf(sessions, session);
+        const lines = panes.map(pane => `  ${describePane(pane)}`);
+        return createResponse.success(`Tab ${session.index} in window ${session.window} has ${panes.length} panes:\n${lines.join("\n")}`);
+      } catch (error: any) {
+        return createResponse.error(`Error listing panes of ${target}: ${error.message}`);
+      }
+    },
+    
+    // Makes a pane the active one, which is what bare tab indexes then address
+    async focusPane(args: any) {
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+      
+      try {
+        const session = await resolveSession(backend, args);
+        await backend.focusSession(session.id);
+        return createResponse.success(`Focused ${target} (${describeSession(session)}).`);
+      } catch (error: any) {
+        return createResponse.error(`Error focusing ${target}: ${error.message}`);
+      }
+    },
+
+    // Installs the prompt hooks into a shell the server did not open itself
+    async enableShellIntegration(args: any) {
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+
+      try {
+        const session = await resolveSession(backend, args);
+        if (isProtected(session)) {
+          return refuseProtected(session, target, "Nothing was installed.");
+        }
+        if (session.isRunning) {
+          return createResponse.error(`Error: ${target} is running a command. Shell integration can only be enabled at a prompt.`);
+        }
+        await backend.enableShellIntegration(session.id);
+        return createResponse.success(`Enabled shell integration in ${target} (${describeSession(session)}). Its command state is now tracked by prompt hooks.`);
+      } catch (error: any) {
+        return createResponse.error(`Error enabling shell integration in ${target}: ${error.message}`);
+      }
+    },
+
+      // Shows tail of specific tab
+      async TailTabSingle(args: any) {
+          const { lines = 50 } = args || {};
+
+          // Validate inputs
+          const targetValidation = validate.target(args);
+          if (!targetValidation.valid) {
+              return createResponse.error(targetValidation.error);
+          }
+
+          const linesValidation = validate.lines(lines);
+          if (!linesValidation.valid) {
+              return createResponse.error(linesValidation.error);
+          }
+
+          try {
+              const session = await resolveSession(backend, args);
+              const tabContent = await getTabContent(backend, session.id); // Get *just* the content
+
+              // Get the last N lines
+              const contentLines = tabContent.split("\n");
+              const lastLines = contentLines.slice(-lines).join("\n");
+
+              return createResponse.success(`Tab ${session.index} (${session.name}, session ${session.id}):\n\n${trimOutput(lastLines)}`);
+          } catch (error: any) {
+              return createResponse.error(`Error accessing ${describeTarget(args)}: ${error.message}`);
+          }
+      },
+  
+    // Reads what a session printed since a cursor from an earlier read
+    async readOutput(args: any) {
+      const { cursor, lines = 200 } = args || {};
+
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+
+      if (cursor !== undefined && (typeof cursor !== 'string' || cursor === '')) {
+        return createResponse.error("Error: cursor parameter must be a non-empty string");
+      }
+      const linesValidation = validate.lines(lines);
+      if (!linesValidation.valid) {
+        return createResponse.error(linesValidation.error);
+      }
+
+      try {
+        const session = await resolveSession(backend, args);
+        const slice = readSince(await backend.readContents(session.id), cursor, lines);
+
+        const notes = [];
+        if (slice.truncated) {
+          notes.push("The output at the cursor has scrolled out of the buffer, so some lines were missed. Showing everything still available.");
+        }
+        if (slice.remaining > 0) {
+          notes.push(`${slice.remaining} more ${slice.remaining === 1 ? "line is" : "lines are"} available. Read again with the new cursor to get them.`);
+        }
+        const summary = slice.lines.length === 0
+          ? `No new output in ${target} (${describeSession(session)})${cursor !== undefined ? " since the cursor" : ""}.`
+          : `${slice.lines.length} ${cursor !== undefined ? "new " : ""}${slice.lines.length === 1 ? "line" : "lines"} from ${target} (${describeSession(session)}).`;
+        const header = [summary, ...notes, `Cursor: ${slice.cursor}`].join("\n");
+        return createResponse.success(slice.lines.length === 0 ? header : `${header}\n\n${slice.lines.join("\n")}`);
+      } catch (error: any) {
+        return createResponse.error(`Error reading output of ${target}: ${error.message}`);
+      }
+    },
+
+    // Runs command and waits for completion
+    async runCommandBlocking(args: any, call: CallContext = SILENT_CALL) {
+      const { command, wait: waitTime = 5, pollInterval = POLL_INTERVAL_MS, supervise, interruptOnCancel = false, confirm = false } = args || {};
+    
+      // Validate inputs
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+    
+      const commandValidation = validate.command(command);
+      if (!commandValidation.valid) {
+        return createResponse.error(commandValidation.error);
+      }
+    
+      const waitValidation = validate.waitTime(waitTime);
+      if (!waitValidation.valid) {
+        return createResponse.error(waitValidation.error);
+      }
+    
+      const intervalValidation = validate.interval(pollInterval);
+      if (!intervalValidation.valid) {
+        return createResponse.error(intervalValidation.error);
+      }
+      
+      const superviseValidation = supervise !== undefined ? validate.supervise(supervise) : undefined;
+      if (superviseValidation && !superviseValidation.valid) {
+        return createResponse.error(superviseValidation.error);
+      }
+      
+      const confirmValidation = validate.confirm(confirm);
+      if (!confirmValidation.valid) {
+        return createResponse.error(confirmValidation.error);
+      }
+    
+      try {
+        const session = await resolveSession(backend, args);
+        if (isProtected(session)) {
+          return refuseProtected(session, target, "Nothing was sent.");
+        }
+        const violation = policyViolation(command, session, confirm);
+        if (violation) {
+          return refuse(`Policy violation: ${violation}. Nothing was sent to ${target}.`);
+        }
+        const marker = generateMarker();
+        const startedAt = Date.now();
+        await sendMarkedCommand(backend, session.id, command, marker);
+        lastCommands.set(session.id, { command, marker });
+        const job = jobs.start(session.id, command, marker);
+        const supervised = superviseValidation ? supervisor.supervise(job, superviseValidation.options!) : undefined;
+      
+        // Return as soon as the end marker shows up, waiting at most waitTime
+        const report = call.reporter(`Running "${command}" in ${target}`, waitTime);
+        const completed = await pollContent(backend, session.id, waitTime * 1000, Math.max(pollInterval, MIN_POLL_INTERVAL_MS), content => {
+          jobs.observe(job, content);
+          const extracted = extractMarkedContent(content, marker);
+          report(extracted.content);
+          return extracted.exitCode !== -1 ? extracted : undefined;
+        }, call.signal);
+        if (!completed && call.signal?.aborted) {
+          return await cancelled(session.id, target, `"${command}" to finish`, startedAt, interruptOnCancel);
+        }
+        const elapsed = ((Date.now() - startedAt) / 1000).toFixed(2);
+      
+        // Get just the content (not the tab name) so far if it did not finish
+        const { content: extractedContent, exitCode } = completed || extractMarkedContent(await getTabContent(backend, session.id), marker);
+      
+        let statusMessage;
+        if (exitCode === -1) {
+          statusMessage = `Command is still running in ${target} after ${elapsed} seconds (no completion marker found). Follow it as ${job.id}.`;
+        } else {
+          statusMessage = `Command completed in ${target} with exit code ${exitCode} after ${elapsed} seconds.`;
+        }
+      
+        if (supervised) {
+          statusMessage += ` ${describeSupervision(supervised)}`;
+        }
+      
+        return createResponse.success(`${statusMessage} Output:\n\n${trimOutput(extractedContent)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error executing command in ${target}: ${error.message}`);
+      }
+    },
+  
+    // Runs command asynchronously
+    async runCommandAsync(args: any, call: CallContext = SILENT_CALL) {
+      const { 
+        command, 
+        wait: waitTime = 0, 
+        tailLines = 0,
+        ready,
+        supervise,
+        interruptOnCancel = false,
+        confirm = false
+      } = args || {};
+    
+      // Validate inputs
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+    
+      const commandValidation = validate.command(command);
+      if (!commandValidation.valid) {
+        return createResponse.error(commandValidation.error);
+      }
+    
+      const waitValidation = validate.waitTime(waitTime);
+      if (!waitValidation.valid) {
+        return createResponse.error(waitValidation.error);
+      }
+    
+      const linesValidation = validate.lines(tailLines, "tailLines");
+      if (!linesValidation.valid) {
+        return createResponse.error(linesValidation.error);
+      }
+      
+      if (ready !== undefined) {
+        if (typeof ready !== 'object' || ready === null || Array.isArray(ready)) {
+          return createResponse.error("Error: ready parameter must be an object with a port or url");
+        }
+        const problem = probeProblem(ready, "ready.");
+        if (problem) {
+          return createResponse.error(`Error: ${problem}`);
+        }
+        const readyTimeoutValidation = validate.seconds(ready.timeout, "ready.timeout");
+        if (!readyTimeoutValidation.valid) {
+          return createResponse.error(readyTimeoutValidation.error);
+        }
+      }
+      
+      const superviseValidation = supervise !== undefined ? validate.supervise(supervise) : undefined;
+      if (superviseValidation && !superviseValidation.valid) {
+        return createResponse.error(superviseValidation.error);
+      }
+      
+      const confirmValidation = validate.confirm(confirm);
+      if (!confirmValidation.valid) {
+        return createResponse.error(confirmValidation.error);
+      }
+    
+      try {
+        const session = await resolveSession(backend, args);
+        if (isProtected(session)) {
+          return refuseProtected(session, target, "Nothing was sent.");
+        }
+        const violation = policyViolation(command, session, confirm);
+        if (violation) {
+          return refuse(`Policy violation: ${violation}. Nothing was sent to ${target}.`);
+        }
+        const marker = generateMarker();
+        const startedAt = Date.now();
+        await sendMarkedCommand(backend, session.id, command, marker);
+        lastCommands.set(session.id, { command, marker });
+        const job = jobs.start(session.id, command, marker);
+        const supervised = superviseValidation ? supervisor.supervise(job, superviseValidation.options!) : undefined;
+        const supervision = supervised ? ` ${describeSupervision(supervised)}` : "";
+      
+        let outputMessage = `Command "${command}" sent to ${target} as ${job.id}.${supervision}`;
+      
+        // Wait if specified
+        if (waitTime > 0) {
+          await sleep(waitTime * 1000, call.signal);
+          if (call.signal?.aborted) {
+            return await cancelled(session.id, target, `"${command}"`, startedAt, interruptOnCancel);
+          }
+          outputMessage = `Command "${command}" sent to ${target} as ${job.id} and waited ${waitTime} seconds.${supervision}`;
+        }
+        
+        // Then until the server it started answers
+        if (ready !== undefined) {
+          const probe: ReadinessProbe = { port: ready.port, url: ready.url, status: ready.status };
+          const readyTimeout = ready.timeout ?? 60;
+          const outcome = await waitForProbe(session.id, probe, readyTimeout, call, marker);
+          if (!outcome.ready && call.signal?.aborted) {
+            return await cancelled(session.id, target, describeProbe(probe), startedAt, interruptOnCancel);
+          }
+          if (!outcome.ready) {
+            const failure = await describeProbeFailure(session.id, target, probe, readyTimeout, outcome, tailLines || 20);
+            return createResponse.error(`${outputMessage} ${failure}`);
+          }
+          outputMessage += ` ${describeProbe(probe)} is ready after ${outcome.seconds.toFixed(1)} seconds (${outcome.detail}).`;
+        }
+        
+        // Get output if requested
+        if (tailLines > 0) {
+          const content = await getTabContent(backend, session.id); // Get *just* the content
+          const { content: extractedContent, exitCode } = extractMarkedContent(content, marker);
+        
+          if (exitCode !== -1) {
+            outputMessage += ` Completed with exit code ${exitCode}.`;
+          }
+        
+          const outputLines = extractedContent.split('\n');
+          const lastLines = outputLines.slice(-tailLines).join('\n');
+          outputMessage += `\n\nOutput (last ${tailLines} lines):\n\n${trimOutput(lastLines)}`;
+        }
+      
+        return createResponse.success(outputMessage);
+      } catch (error: any) {
+        return createResponse.error(`Error running command in ${target}: ${error.message}`);
+      }
+    },
+  
+    // Starts the tabs and panes of a workspace file, each once the ones it
+    // depends on are ready. Tabs that already exist under their name are kept.
+    async workspaceUp(args: any, call: CallContext = SILENT_CALL) {
+      const { file, confirm = false } = args || {};
+      const fileValidation = validate.file(file);
+      if (!fileValidation.valid) {
+        return createResponse.error(fileValidation.error);
+      }
+      const confirmValidation = validate.confirm(confirm);
+      if (!confirmValidation.valid) {
+        return createResponse.error(confirmValidation.error);
+      }
+      
+      let workspace: Workspace;
+      try {
+        workspace = loadWorkspace(file);
+      } catch (error: any) {
+        return createResponse.error(`Error loading workspace ${file}: ${error.message}`);
+      }
+      
+      // All or nothing, rather than a workspace missing the blocked parts
+      const violations = workspace.processes.flatMap(entry => {
+        const violation = entry.command !== undefined ? policyViolation(entry.command, { name: entry.name }, confirm) : undefined;
+        return violation ? [`${entry.name}: ${violation}`] : [];
+      });
+      if (violations.length > 0) {
+        return refuse(`Policy violation in workspace "${workspace.name}", nothing was started:\n\n${violations.join("\n")}`);
+      }
+      
+      const sessions = new Map<string, SessionInfo>();
+      const typedLines = new Map<string, string>();
+      const outcomes = new Map<string, { status: "started" | "running" | "skipped" | "failed", detail: string }>();
+      const readiness = new Map<string, Promise<boolean>>();
+      
+      // Waits for the ready pattern in what the process printed (lines with the
+      // typed command itself do not count), then for its port or URL to answer
+      const waitForReady = async (entry: WorkspaceProcess) => {
+        const session = sessions.get(entry.name);
+        if (!session || !entry.ready) {
+          return session !== undefined;
+        }
+        const { pattern, regex, port, url, status, timeout } = entry.ready;
+        const startedAt = Date.now();
+        let waitingFor = "";
+        let failure: string | undefined;
+        if (pattern !== undefined) {
+          waitingFor = `"${pattern}"`;
+          const expression = regex ? new RegExp(pattern) : null;
+          const typed = typedLines.get(entry.name);
+          const found = await pollContent(backend, session.id, timeout * 1000, POLL_INTERVAL_MS, content => {
+            const lines = content.split("\n").filter(line => !typed || !line.includes(typed));
+            return lines.some(line => expression ? expression.test(line) : line.includes(pattern)) || undefined;
+          }, call.signal);
+          if (!found) {
+            failure = `"${pattern}" did not show up within ${timeout} seconds`;
+          }
+        }
+        if (!failure && (port !== undefined || url !== undefined)) {
+          const probe: ReadinessProbe = { port, url, status };
+          waitingFor = describeProbe(probe);
+          const remaining = Math.max(0, startedAt + timeout * 1000 - Date.now());
+          const result = await pollProbe(probe, remaining, PROBE_INTERVAL_MS, async () => false, call.signal);
+          if (!result.ready) {
+            failure = `${describeProbe(probe)} did not answer within ${timeout} seconds (last attempt: ${result.detail})`;
+          }
+        }
+        const outcome = outcomes.get(entry.name)!;
+        if (!failure) {
+          outcome.detail += `, ready after ${((Date.now() - startedAt) / 1000).toFixed(1)} seconds`;
+          return true;
+        }
+        // Indented, to set it apart from the lines about the other processes
+        const lastLines = (await backend.readContents(session.id)).trimEnd().split("\n").slice(-5).map(line => `  ${line}`).join("\n");
+        outcome.detail += call.signal?.aborted
+          ? `, cancelled while waiting for ${waitingFor}`
+          : `, NOT READY: ${failure}. Last output:\n${trimOutput(lastLines)}`;
+        return false;
+      };
+      const isReady = (name: string) => {
+        if (!readiness.has(name)) {
+          readiness.set(name, waitForReady(workspace.processes.find(p => p.name === name)!));
+        }
+        return readiness.get(name)!;
+      };
+      
+      for (const entry of workspace.processes) {
+        if (call.signal?.aborted) {
+          outcomes.set(entry.name, { status: "skipped", detail: "not started, the call was cancelled" });
+          continue;
+        }
+        if (entry.tab && !sessions.has(entry.tab)) {
+          outcomes.set(entry.name, { status: "skipped", detail: `not started, its tab "${entry.tab}" is not up` });
+          continue;
+        }
+        const waitingOn = [];
+        for (const dependency of entry.dependsOn) {
+          if (!(await isReady(dependency))) {
+            waitingOn.push(dependency);
+          }
+        }
+        if (waitingOn.length > 0) {
+          outcomes.set(entry.name, { status: "skipped", detail: `not started, it depends on ${waitingOn.map(name => `"${name}"`).join(", ")}, which did not come up` });
+          continue;
+        }
+        
+        try {
+          const existing = (await backend.listSessions()).find(s => s.name === entry.name);
+          if (existing) {
+            sessions.set(entry.name, existing);
+            outcomes.set(entry.name, { status: "running", detail: `already running (${describeSession(existing)})` });
+            continue;
+          }
+          
+          const options = { name: entry.name, cwd: entry.cwd };
+          const session = entry.tab
+            ? await splitPane(sessions.get(entry.tab)!.id, entry.direction!, options)
+            : await backend.createSession(options);
+          const exports = Object.entries(entry.env).map(([name, value]) => `${name}=${quoteForShell(value)}`);
+          const typed = [exports.length > 0 ? `export ${exports.join(" ")}` : "", entry.command ?? ""].filter(Boolean).join("; ");
+          await setUpSession(session, typed || undefined, call.signal);
+          sessions.set(entry.name, session);
+          if (typed) {
+            typedLines.set(entry.name, typed);
+          }
+          outcomes.set(entry.name, { status: "started", detail: `started (${describeSession(session)})` });
+        } catch (error: any) {
+          outcomes.set(entry.name, { status: "failed", detail: `failed: ${error.message}` });
+        }
+      }
+      
+      // Report the readiness of everything, not just what others depend on
+      const ready = await Promise.all(workspace.processes.map(entry => sessions.has(entry.name) ? isReady(entry.name) : false));
+      
+      const counts = new Map<string, number>();
+      const count = (label: string) => counts.set(label, (counts.get(label) || 0) + 1);
+      workspace.processes.forEach((entry, index) => {
+        const { status } = outcomes.get(entry.name)!;
+        count(status === "running" ? "already running" : status);
+        if (sessions.has(entry.name) && !ready[index]) {
+          count("not ready");
+        }
+      });
+      const complete = ready.every(Boolean);
+      const summary = `Workspace "${workspace.name}" is ${complete ? "up" : "not fully up"}: ${[...counts].map(([label, n]) => `${n} ${label}`).join(", ")}.`;
+      const details = workspace.processes.map(entry => `${entry.name}: ${outcomes.get(entry.name)!.detail}`).join("\n");
+      return complete ? createResponse.success(`${summary}\n\n${details}`) : createResponse.error(`${summary}\n\n${details}`);
+    },
+    
+    // Stops and closes the tabs and panes of a workspace file, dependents first
+    async workspaceDown(args: any) {
+      const { file, grace = 5 } = args || {};
+      const fileValidation = validate.file(file);
+      if (!fileValidation.valid) {
+        return createResponse.error(fileValidation.error);
+      }
+      const graceValidation = validate.seconds(grace, "grace");
+      if (!graceValidation.valid) {
+        return createResponse.error(graceValidation.error);
+      }
+      
+      let workspace: Workspace;
+      try {
+        workspace = loadWorkspace(file);
+      } catch (error: any) {
+        return createResponse.error(`Error loading workspace ${file}: ${error.message}`);
+      }
+      
+      const details = [];
+      let closed = 0;
+      let failed = 0;
+      let protectedCount = 0;
+      for (const entry of [...workspace.processes].reverse()) {
+        try {
+          const session = (await backend.listSessions()).find(s => s.name === entry.name);
+          if (!session) {
+            details.push(`${entry.name}: not running`);
+            continue;
+          }
+          if (isProtected(session)) {
+            logMessage(`Left ${entry.name} (session ${session.id}) of workspace "${workspace.name}" open: it is protected`);
+            details.push(`${entry.name}: protected, left open (session ${session.id} was not opened by this server)`);
+            protectedCount++;
+            continue;
+          }
+          let report = "was idle";
+          if (session.isRunning) {
+            await backend.sendKeys(session.id, "\x03");
+            report = await waitUntilIdle(session.id, grace * 1000)
+              ? "stopped after Control-C"
+              : `did not stop within ${grace} seconds of Control-C`;
+          }
+          await backend.closeSession(session.id);
+          openedSessions.delete(session.id);
+          lastCommands.delete(session.id);
+          details.push(`${entry.name}: ${report}, closed (session ${session.id})`);
+          closed++;
+        } catch (error: any) {
+          details.push(`${entry.name}: failed: ${error.message}`);
+          failed++;
+        }
+      }
+      
+      const notRunning = workspace.processes.length - closed - failed - protectedCount;
+      const counts: [number, string][] = [[closed, "closed"], [notRunning, "not running"], [protectedCount, "protected"], [failed, "failed"]];
+      const summary = `Workspace "${workspace.name}" is down: ${counts.filter(([n]) => n > 0).map(([n, label]) => `${n} ${label}`).join(", ")}.`;
+      return failed === 0 ? createResponse.success(`${summary}\n\n${details.join("\n")}`) : createResponse.error(`${summary}\n\n${details.join("\n")}`);
+    },
+    
+    // Writes the windows, tabs and panes with their names, working directories
+    // and last commands to a snapshot file
+    async saveLayout(args: any) {
+      const { file, window } = args || {};
+      const fileValidation = validate.file(file);
+      if (!fileValidation.valid) {
+        return createResponse.error(fileValidation.error);
+      }
+      const windowValidation = validate.window(window);
+      if (!windowValidation.valid) {
+        return createResponse.error(windowValidation.error);
+      }
+      
+      try {
+        const sessions = (await backend.listSessions()).filter(s => window === undefined || s.window === window);
+        if (sessions.length === 0) {
+          return createResponse.error(`Error: window ${window} has no tabs to save.`);
+        }
+        const layout = captureLayout(sessions, backend.name, {
+          commandFor: session =>
+            lastCommands.get(session.id)?.command ?? (unwrapMarkedCommand(session.commandState?.command || "").command || undefined),
+          directionFor: session => splitDirections.get(session.id),
+          redactor
+        });
+        writeLayout(file, layout);
+        
+        const tabs = layout.windows.flatMap(w => w.tabs);
+        const details = layout.windows.flatMap((w, windowNumber) => w.tabs.flatMap((tab, tabNumber) => tab.panes.map((pane, paneNumber) =>
+          `Window ${windowNumber}, tab ${tabNumber}${paneNumber > 0 ? `, pane ${paneNumber}` : ""}: ${pane.name}` +
+          `${pane.cwd ? ` in ${pane.cwd}` : ""}${pane.command ? `, last command "${pane.command}"` : ""}`)));
+        return createResponse.success(
+          `Saved ${layout.windows.length} windows, ${tabs.length} tabs and ${sessions.length} panes to ${file}.\n\n${details.join("\n")}`);
+      } catch (error: any) {
+        return createResponse.error(`Error saving layout to ${file}: ${error.message}`);
+      }
+    },
+    
+    // Opens the windows, tabs and panes of a snapshot in new windows. Commands
+    // are only run again when asked for, since they may not be safe to repeat.
+    async restoreLayout(args: any, call: CallContext = SILENT_CALL) {
+      const { file, rerun = false, confirm = false } = args || {};
+      const fileValidation = validate.file(file);
+      if (!fileValidation.valid) {
+        return createResponse.error(fileValidation.error);
+      }
+      if (typeof rerun !== 'boolean') {
+        return createResponse.error("Error: rerun parameter must be true or false");
+      }
+      const confirmValidation = validate.confirm(confirm);
+      if (!confirmValidation.valid) {
+        return createResponse.error(confirmValidation.error);
+      }
+      
+      let layout: Layout;
+      try {
+        layout = readLayout(file);
+      } catch (error: any) {
+        return createResponse.error(`Error loading layout ${file}: ${error.message}`);
+      }
+      
+      if (rerun) {
+        const violations = layout.windows.flatMap((window, windowNumber) => window.tabs.flatMap((tab, tabNumber) => tab.panes.flatMap((pane, paneNumber) => {
+          const violation = pane.command !== undefined && !pane.redacted ? policyViolation(pane.command, { name: pane.name }, confirm) : undefined;
+          return violation ? [`Window ${windowNumber}, tab ${tabNumber}${paneNumber > 0 ? `, pane ${paneNumber}` : ""} (${pane.name}): ${violation}`] : [];
+        })));
+        if (violations.length > 0) {
+          return refuse(`Policy violation in layout ${file}, nothing was opened:\n\n${violations.join("\n")}`);
+        }
+      }
+      
+      let takenNames: Set<string>;
+      try {
+        takenNames = new Set((await backend.listSessions()).map(s => s.name));
+      } catch (error: any) {
+        return createResponse.error(`Error restoring layout: ${error.message}`);
+      }
+      
+      const details: string[] = [];
+      let opened = 0;
+      let failed = 0;
+      for (const [windowNumber, window] of layout.windows.entries()) {
+        let windowIndex: number | undefined;
+        for (const [tabNumber, tab] of window.tabs.entries()) {
+          let tabSession: SessionInfo | undefined;
+          for (const [paneNumber, pane] of tab.panes.entries()) {
+            const label = `Window ${windowNumber}, tab ${tabNumber}${paneNumber > 0 ? `, pane ${paneNumber}` : ""} (${pane.name})`;
+            if (paneNumber > 0 && !tabSession) {
+              details.push(`${label}: not opened, its tab could not be opened`);
+              failed++;
+              continue;
+            }
+            if (tabNumber > 0 && windowIndex === undefined) {
+              details.push(`${label}: not opened, its window could not be opened`);
+              failed++;
+              continue;
+            }
+            
+            const notes: string[] = [];
+            // Split panes that share their tab's name get it from the tab
+            const sharesTabName = paneNumber > 0 && pane.name === tab.panes[0].name;
+            let name: string | undefined = sharesTabName ? undefined : pane.name;
+            if (name !== undefined && takenNames.has(name)) {
+              notes.push(`the name "${name}" is already taken`);
+              name = undefined;
+            }
+            let cwd = pane.cwd;
+            if (cwd !== undefined && !fs.statSync(cwd, { throwIfNoEntry: false })?.isDirectory()) {
+              notes.push(`${cwd} no longer exists`);
+              cwd = undefined;
+            }
+            
+            try {
+              const options = { name, cwd };
+              const session = paneNumber > 0
+                ? await splitPane(tabSession!.id, pane.direction ?? "vertical", options)
+                : tabNumber > 0
+                  ? await backend.createSession({ ...options, window: windowIndex })
+                  : await backend.createWindow(options);
+              if (paneNumber === 0) {
+                tabSession = session;
+              }
+              if (tabNumber === 0 && paneNumber === 0) {
+                windowIndex = session.window;
+              }
+              if (name !== undefined) {
+                takenNames.add(name);
+              }
+              // A command with masked secrets would type the masks
+              const started = await setUpSession(session, rerun && !pane.redacted ? pane.command : undefined, call.signal);
+              const command = pane.command && (!rerun || pane.redacted)
+                ? ` Last command (not run again${rerun ? ", secrets in it were masked" : ""}): ${pane.command}`
+                : started;
+              const note = notes.length > 0 ? ` Note: ${notes.join(", ")}.` : "";
+              details.push(`${label}: opened as ${describeSession(session)}${cwd ? ` in ${cwd}` : ""}.${command}${note}`);
+              opened++;
+            } catch (error: any) {
+              details.push(`${label}: failed: ${error.message}`);
+              failed++;
+            }
+          }
+        }
+      }
+      
+      const saved = layout.savedAt ? ` (saved ${layout.savedAt})` : "";
+      const summary = `Restored layout from ${file}${saved}: ${opened} panes opened${failed > 0 ? `, ${failed} failed` : ""}.`;
+      return failed === 0 ? createResponse.success(`${summary}\n\n${details.join("\n")}`) : createResponse.error(`${summary}\n\n${details.join("\n")}`);
+    },
+    
+    // Lists the commands the server started with where they stand
+    async listJobs(args: any) {
+      const { status } = args || {};
+      if (status !== undefined && !["running", "finished", "interrupted", "lost"].includes(status)) {
+        return createResponse.error('Error: status parameter must be "running", "finished", "interrupted" or "lost"');
+      }
+      
+      try {
+        await jobs.refresh();
+        const listed = jobs.list().filter(job => status === undefined || job.status === status);
+        if (listed.length === 0) {
+          return createResponse.success(status ? `No ${status} jobs.` : "No jobs yet. Commands started with iterm_run_command_async or iterm_run_command_blocking become jobs.");
+        }
+        return createResponse.success(listed.map(describeJob).join("\n"));
+      } catch (error: any) {
+        return createResponse.error(`Error listing jobs: ${error.message}`);
+      }
+    },
+    
+    // Reports a job's status and the end of its output
+    async getJob(args: any) {
+      const { job: id, lines = 20 } = args || {};
+      const jobValidation = validate.job(id);
+      if (!jobValidation.valid) {
+        return createResponse.error(jobValidation.error);
+      }
+      const linesValidation = validate.lines(lines);
+      if (!linesValidation.valid) {
+        return createResponse.error(linesValidation.error);
+      }
+      
+      try {
+        const job = jobs.get(id);
+        await jobs.refresh();
+        if (job.status === "lost") {
+          return createResponse.success(describeJob(job));
+        }
+        const { content } = extractMarkedContent(await backend.readContents(job.sessionId), job.marker);
+        return createResponse.success(`${describeJob(job)}\n\n${describeJobOutput(content, lines)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error getting job ${id}: ${error.message}`);
+      }
+    },
+    
+    // Waits until a job finishes, returning as soon as it does
+    async waitForJob(args: any, call: CallContext = SILENT_CALL) {
+      const { job: id, timeout = 30, lines = 20, interruptOnCancel = false } = args || {};
+      const jobValidation = validate.job(id);
+      if (!jobValidation.valid) {
+        return createResponse.error(jobValidation.error);
+      }
+      const timeoutValidation = validate.seconds(timeout, "timeout");
+      if (!timeoutValidation.valid) {
+        return createResponse.error(timeoutValidation.error);
+      }
+      const linesValidation = validate.lines(lines);
+      if (!linesValidation.valid) {
+        return createResponse.error(linesValidation.error);
+      }
+      
+      try {
+        const job = jobs.get(id);
+        await jobs.refresh();
+        if (job.status === "lost") {
+          return createResponse.success(describeJob(job));
+        }
+        
+        const startedAt = Date.now();
+        const report = call.reporter(`Waiting for ${job.id} ("${job.command}")`, timeout);
+        // The content alone cannot show an interrupted job; the registry's own
+        // watch reads the session state too and updates the job for this loop
+        const output = await pollContent(backend, job.sessionId, timeout * 1000, POLL_INTERVAL_MS, content => {
+          jobs.observe(job, content);
+          const { content: extracted } = extractMarkedContent(content, job.marker);
+          report(extracted);
+          return job.status === "running" ? undefined : extracted;
+        }, call.signal);
+        if (output === undefined && call.signal?.aborted) {
+          return await cancelled(job.sessionId, `session ${job.sessionId}`, job.id, startedAt, interruptOnCancel);
+        }
+        
+        const finalOutput = output ?? extractMarkedContent(await backend.readContents(job.sessionId), job.marker).content;
+        const summary = job.status === "running" ? `Timed out after ${timeout} seconds: ${describeJob(job)}` : describeJob(job);
+        return createResponse.success(`${summary}\n\n${describeJobOutput(finalOutput, lines)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error waiting for job ${id}: ${error.message}`);
+      }
+    },
+
+    // Lists supervised commands with where they stand
+    async listSupervised() {
+      try {
+        await supervisor.refresh();
+        const listed = supervisor.list();
+        if (listed.length === 0) {
+          return createResponse.success("No supervised commands. Pass supervise to iterm_run_command_async to start one.");
+        }
+        return createResponse.success(listed.map(describeSupervised).join("\n"));
+      } catch (error: any) {
+        return createResponse.error(`Error listing supervised commands: ${error.message}`);
+      }
+    },
+    
+    // Reports a supervised command with its restart history and current output
+    async getSupervised(args: any) {
+      const { id, lines = 20 } = args || {};
+      const idValidation = validate.supervised(id);
+      if (!idValidation.valid) {
+        return createResponse.error(idValidation.error);
+      }
+      const linesValidation = validate.lines(lines);
+      if (!linesValidation.valid) {
+        return createResponse.error(linesValidation.error);
+      }
+      
+      try {
+        const entry = supervisor.get(id);
+        await supervisor.refresh();
+        const summary = `${describeSupervised(entry)}\n\n${describeRestartHistory(entry)}`;
+        if (entry.status === "lost") {
+          return createResponse.success(summary);
+        }
+        const { content } = extractMarkedContent(await backend.readContents(entry.sessionId), entry.job.marker);
+        return createResponse.success(`${summary}\n\n${describeJobOutput(content, lines)}`);
+      } catch (error: any) {
+        return createResponse.error(`Error getting supervised command ${id}: ${error.message}`);
+      }
+    },
+    
+    // Ends supervision, optionally stopping the command too
+    async stopSupervised(args: any) {
+      const { id, interrupt = false } = args || {};
+      const idValidation = validate.supervised(id);
+      if (!idValidation.valid) {
+        return createResponse.error(idValidation.error);
+      }
+      
+      try {
+        const entry = supervisor.get(id);
+        await supervisor.refresh();
+        const wasActive = entry.status === "running" || entry.status === "restarting";
+        supervisor.stop(id);
+        if (!wasActive) {
+          return createResponse.success(`${id} was no longer supervised: ${describeSupervised(entry)}`);
+        }
+        if (entry.job.status !== "running") {
+          return createResponse.success(`Stopped supervising ${id}. It will not be restarted.`);
+        }
+        if (interrupt) {
+          await backend.sendKeys(entry.sessionId, String.fromCharCode(3));
+          return createResponse.success(`Stopped supervising ${id} and sent Control-C to session ${entry.sessionId} to stop ${entry.job.id}.`);
+        }
+        return createResponse.success(`Stopped supervising ${id}. "${entry.command}" keeps running as ${entry.job.id} in session ${entry.sessionId}.`);
+      } catch (error: any) {
+        return createResponse.error(`Error stopping supervised command ${id}: ${error.message}`);
+      }
+    },
+    
+    // Sends control code to tab
+    async sendControlCode(args: any) {
+      const { letter } = args || {};
+    
+      // Validate inputs
+      const targetValidation = validate.target(args);
+      if (!targetValidation.valid) {
+        return createResponse.error(targetValidation.error);
+      }
+      const target = describeTarget(args);
+    
+      const letterValidation = validate.letter(letter);
+      if (!letterValidation.valid) {
+        return createResponse.error(letterValidation.error);
+      }
+    
+      try {
+        const upperLetter = letterValidation.upperLetter;
+        const controlCode = upperLetter.charCodeAt(0) - 64;
+        const session = await resolveSession(backend, args);
+        if (isProtected(session)) {
+          return refuseProtected(session, target, "Nothing was sent.");
+        }
+        await backend.sendKeys(session.id, String.fromCharCode(controlCode));
+        return createResponse.success(`Control-${upperLetter} sent to ${target}.`);
+      } catch (error: any) {
+        return createResponse.error(`Error sending Control-${letter.toUpperCase()} to ${target}: ${error.message}`);
+      }
+    },
+  
+      // Gets detailed information about all tabs including tail content
+      async GetAllTabInfo(args: any) {
+          const lines = args?.lines || 20;
+          const validation = validate.lines(lines);
+          if (!validation.valid) {
+              return createResponse.error(validation.error);
+          }
+
+          const windowValidation = validate.window(args?.window);
+          if (!windowValidation.valid) {
+              return createResponse.error(windowValidation.error);
+          }
+
+          try {
+              const tabs = await getAllTabInfo(backend, args?.window); // Use new function
+
+              const formattedOutput = tabs.map(tab => {
+                  // Get the last N lines
+                  const contentLines = tab.content.split("\n");
+                  const lastLines = contentLines.slice(-lines).join("\n");
+                  const split = tabs.some(other => other.window === tab.window && other.index === tab.index && other.pane > 0);
+
+                  const statusInfo = `Tab ${tab.index}: ${tab.name}
+Window: ${tab.window}${split ? `\nPane: ${tab.pane}${tab.active ? " (active)" : ""}` : ""}
+Session: ${tab.id}${tab.cwd ? `\nDirectory: ${tab.cwd}` : ""}
+Running: ${tab.isRunning}
+${describeCommandState(tab, tab.content)}`;
+
+                  return `========== ${statusInfo} ==========\n\n${trimOutput(lastLines)}`;
+              }).join("\n\n" + "-".repeat(70) + "\n\n");
+
+              return createResponse.success(trimOutput(formattedOutput, 15000));
+          } catch (error: any) {
+              return createResponse.error(`Error getting tabs info: ${error.message}`);
+          }
+      }
+  };
+}
+
+// ==================================================
+// Tool Definitions
+// ==================================================
+const SESSION_DESCRIPTION = "Stable session ID from iterm_new_tab or iterm_get_all_tabs_info. Preferred over tab, since it keeps pointing at the same shell when tabs are closed or reordered";
+const NAME_DESCRIPTION = "Name given to the tab with iterm_new_tab or iterm_rename_tab. Alternative to tab";
+const TAB_DESCRIPTION = "The tab index (0-based). Fallback when neither session nor name is given";
+const NEW_NAME_DESCRIPTION = "Name for the new tab, unique among open tabs, for addressing it later";
+const CWD_DESCRIPTION = "Working directory for the new shell (default: the backend's default)";
+const INITIAL_COMMAND_DESCRIPTION = "Command to start in the new tab right away, e.g. a dev server";
+const INTERRUPT_ON_CANCEL_DESCRIPTION = "Send Ctrl-C to the tab if the client cancels this call while it waits, so the command does not outlive the request (default: false)";
+const CONFIRM_DESCRIPTION = "Run the command even though the command policy asks for confirmation, e.g. for a force push. Only set this when the user asked for exactly this command (default: false)";
+const JOB_DESCRIPTION = "Job ID returned when the command was started, e.g. \"job-1\"";
+const WORKSPACE_FILE_DESCRIPTION = "Path of the workspace file (.json, .yaml or .yml)";
+const PROBE_PORT_DESCRIPTION = "Local TCP port that must accept connections (on 127.0.0.1 or ::1)";
+const PROBE_URL_DESCRIPTION = "HTTP or HTTPS URL that must answer, e.g. http://localhost:3000/health. Alternative to port";
+const PROBE_STATUS_DESCRIPTION = "Status code the URL must answer with (default: any below 400)";
+const SUPERVISED_ID_DESCRIPTION = "Supervised command ID returned by the run tool, e.g. \"sup-1\"";
+// Shared by both run tools
+const SUPERVISE_SCHEMA = {
+  type: "object",
+  description: "Supervise the command: start it again in the same tab when it ends, e.g. { \"restart\": \"on-failure\" } for a dev server. Follow it with iterm_get_supervised",
+  properties: {
+    restart: { type: "string", enum: ["never", "on-failure", "always"], description: "never, on-failure (non-zero exit code or crashPattern; default) or always" },
+    maxRestarts: { type: "number", description: "Give up after this many restarts (default: 5)" },
+    backoff: { type: "number", description: "Seconds before the first restart, doubled for each further one up to 60 (default: 1)" },
+    crashPattern: { type: "string", description: "Output that means it crashed while still running, e.g. \"app crashed\" from nodemon; it is then stopped with Control-C and restarted" }
+  }
+};
+const PANE_DESCRIPTION = "The pane index (0-based) within the tab (default: the tab's active pane)";
+const WINDOW_DESCRIPTION = "The window index (0-based, in the order windows were opened) that tab refers to (default: 0)";
+
+function createTools(commands: ReturnType<typeof createCommands>) {
+  return [
+    { 
+      name: "iterm_new_tab", 
+      description: "Creates a new tab in an iTerm2 window, optionally named and running a command, and returns its session ID", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          window: { type: "number", description: "The window index (0-based) to open the tab in (default: 0)" },
+          name: { type: "string", description: NEW_NAME_DESCRIPTION },
+          cwd: { type: "string", description: CWD_DESCRIPTION },
+          command: { type: "string", description: INITIAL_COMMAND_DESCRIPTION },
+          confirm: { type: "boolean", description: CONFIRM_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.createNewTab
+    },
+    { 
+      name: "iterm_new_window", 
+      description: "Opens a new iTerm2 window and returns the session ID of its first tab", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          name: { type: "string", description: NEW_NAME_DESCRIPTION },
+          cwd: { type: "string", description: CWD_DESCRIPTION },
+          command: { type: "string", description: INITIAL_COMMAND_DESCRIPTION },
+          confirm: { type: "boolean", description: CONFIRM_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.createNewWindow
+    },
+    { 
+      name: "iterm_rename_tab", 
+      description: "Renames a tab so later calls can address it by name", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          newName: { type: "string", description: "The new name; must not be used by another tab" }
+        }, 
+        required: ["newName"] 
+      },
+      handler: commands.renameTab
+    },
+    { 
+      name: "iterm_split_pane", 
+      description: "Splits a pane, optionally naming and running a command in the new pane, and returns its session ID", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          direction: { type: "string", enum: ["horizontal", "vertical"], description: "\"horizontal\" puts the new pane below, \"vertical\" to the right (default: vertical)" },
+          newName: { type: "string", description: "Name for the new pane, unique among open tabs and panes" },
+          cwd: { type: "string", description: CWD_DESCRIPTION },
+          command: { type: "string", description: INITIAL_COMMAND_DESCRIPTION },
+          confirm: { type: "boolean", description: CONFIRM_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.splitPane
+    },
+    { 
+      name: "iterm_close_tab", 
+      description: "Closes a tab or pane the server opened, optionally sending Ctrl-C first, and reports what was running in it", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          interrupt: { type: "boolean", description: "Send Ctrl-C and wait for the running command to exit before closing (default: false)" },
+          grace: { type: "number", description: "Seconds to wait after Ctrl-C before closing anyway (default: 5)" },
+          force: { type: "boolean", description: "Also close tabs the server did not open (default: false). Protected tabs are never closed" }
+        }, 
+        required: [] 
+      },
+      handler: commands.closeTab
+    },
+    { 
+      name: "iterm_wait_for_output", 
+      description: "Waits until a pattern appears in a tab (e.g. \"listening on :3000\"), the last command started there finishes, or a timeout expires, and returns the matched line with context", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          pattern: { type: "string", description: "Text to wait for. Optional when a command started by iterm_run_command_async is running, to just wait for it to finish" },
+          regex: { type: "boolean", description: "Treat pattern as a regular expression instead of literal text (default: false)" },
+          timeout: { type: "number", description: "Seconds to wait at most (default: 30)" },
+          context: { type: "number", description: "Lines to return before and after the matched line (default: 5)" },
+          interruptOnCancel: { type: "boolean", description: INTERRUPT_ON_CANCEL_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.waitForOutput
+    },
+    { 
+      name: "iterm_wait_for_ready", 
+      description: "Waits until a server started in a tab accepts connections on a local TCP port or answers an HTTP URL, more reliable than matching its log output. Fails early if the command started there exits, and returns the tab's last lines when the server does not come up", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          port: { type: "number", description: PROBE_PORT_DESCRIPTION },
+          url: { type: "string", description: PROBE_URL_DESCRIPTION },
+          status: { type: "number", description: PROBE_STATUS_DESCRIPTION },
+          timeout: { type: "number", description: "Seconds to wait at most (default: 60)" },
+          lines: { type: "number", description: "Lines of the tab's output to return if it does not come up (default: 20)" },
+          interruptOnCancel: { type: "boolean", description: INTERRUPT_ON_CANCEL_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.waitForReady
+    },
+    { 
+      name: "iterm_list_panes", 
+      description: "Lists the panes of a tab with their session IDs, sizes and which one is active", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.listPanes
+    },
+    { 
+      name: "iterm_focus_pane", 
+      description: "Makes a pane the active one of its tab and brings the tab to the front", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.focusPane
+    },
+    { 
+      name: "iterm_enable_shell_integration", 
+      description: "Installs bash/zsh prompt hooks into an existing shell so its running command and last exit code are tracked exactly instead of guessed from the prompt. Tabs opened by this server have them already", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION }
+        }, 
+        required: [] 
+      },
+      handler: commands.enableShellIntegration
+    },
+    { 
+      name: "iterm_list_windows", 
+      description: "Lists all windows with their tabs and session IDs", 
+      inputSchema: { type: "object", properties: {}, required: [] },
+      handler: commands.listWindows
+    },
+
+      {
+          name: "iterm_tail_tab_single",
+          description: "Shows the last N lines from a specific tab",
+          inputSchema: {
+              type: "object",
+              properties: {
+                  session: { type: "string", description: SESSION_DESCRIPTION },
+                  name: { type: "string", description: NAME_DESCRIPTION },
+                  tab: { type: "number", description: TAB_DESCRIPTION },
+                  window: { type: "number", description: WINDOW_DESCRIPTION },
+                  pane: { type: "number", description: PANE_DESCRIPTION },
+                  lines: { type: "number", description: "Number of lines to show (default: 50)" }
+              },
+              required: []
+          },
+          handler: commands.TailTabSingle
+      },
+    { 
+      name: "iterm_read_output", 
+      description: "Reads a tab's output incrementally. Returns a cursor with each read; pass it back to get only the lines printed since, without repeats or gaps, which makes following logs cheap. Without a cursor it returns the last lines", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          cursor: { type: "string", description: "Cursor from the previous iterm_read_output of this session" },
+          lines: { type: "number", description: "Maximum number of lines to return; the cursor then points at the first one left out (default: 200)" }
+        }, 
+        required: [] 
+      },
+      handler: commands.readOutput
+    },
+    { 
+      name: "iterm_run_command_blocking", 
+      description: "Runs a command in a tab and waits for it to complete, returning as soon as it does", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          command: { type: "string", description: "The command to run" }, 
+          wait: { type: "number", description: "Maximum seconds to wait for completion; returns as soon as the command finishes (default: 5)" },
+          pollInterval: { type: "number", description: "Milliseconds between completion checks (default: 250, at least 100)" },
+          supervise: SUPERVISE_SCHEMA,
+          interruptOnCancel: { type: "boolean", description: INTERRUPT_ON_CANCEL_DESCRIPTION },
+          confirm: { type: "boolean", description: CONFIRM_DESCRIPTION }
+        }, 
+        required: ["command"] 
+      },
+      handler: commands.runCommandBlocking
+    },
+    { 
+      name: "iterm_run_command_async", 
+      description: "Runs a command in a tab and optionally waits before returning", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          command: { type: "string", description: "The command to run" }, 
+          wait: { type: "number", description: "Seconds to wait before returning (default: 0)" }, 
+          tailLines: { type: "number", description: "Number of lines to return from the tab after execution (default: 0)" },
+          ready: {
+            type: "object",
+            description: "Wait until the server the command starts is up before returning, e.g. { \"port\": 3000 }. Fails with the tab's last lines if it does not come up or the command exits",
+            properties: {
+              port: { type: "number", description: PROBE_PORT_DESCRIPTION },
+              url: { type: "string", description: PROBE_URL_DESCRIPTION },
+              status: { type: "number", description: PROBE_STATUS_DESCRIPTION },
+              timeout: { type: "number", description: "Seconds to wait at most (default: 60)" }
+            }
+          },
+          supervise: SUPERVISE_SCHEMA,
+          interruptOnCancel: { type: "boolean", description: INTERRUPT_ON_CANCEL_DESCRIPTION },
+          confirm: { type: "boolean", description: CONFIRM_DESCRIPTION }
+        }, 
+        required: ["command"] 
+      },
+      handler: commands.runCommandAsync
+    },
+    { 
+      name: "iterm_list_jobs", 
+      description: "Lists the commands started with iterm_run_command_async or iterm_run_command_blocking as jobs, with their status, exit code and timing", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          status: { type: "string", enum: ["running", "finished", "interrupted", "lost"], description: "Only list jobs with this status" }
+        }, 
+        required: [] 
+      },
+      handler: commands.listJobs
+    },
+    { 
+      name: "iterm_get_job", 
+      description: "Shows a job's status, exit code and the end of its output", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          job: { type: "string", description: JOB_DESCRIPTION },
+          lines: { type: "number", description: "Number of output lines to show (default: 20)" }
+        }, 
+        required: ["job"] 
+      },
+      handler: commands.getJob
+    },
+    { 
+      name: "iterm_wait_for_job", 
+      description: "Waits for a job to finish and returns its exit code and output, returning as soon as it does", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          job: { type: "string", description: JOB_DESCRIPTION },
+          timeout: { type: "number", description: "Maximum seconds to wait (default: 30)" },
+          lines: { type: "number", description: "Number of output lines to show (default: 20)" },
+          interruptOnCancel: { type: "boolean", description: INTERRUPT_ON_CANCEL_DESCRIPTION }
+        }, 
+        required: ["job"] 
+      },
+      handler: commands.waitForJob
+    },
+    { 
+      name: "iterm_list_supervised", 
+      description: "Lists the commands started with supervise, with their status, restart count and current job", 
+      inputSchema: { 
+        type: "object", 
+        properties: {}, 
+        required: [] 
+      },
+      handler: commands.listSupervised
+    },
+    { 
+      name: "iterm_get_supervised", 
+      description: "Shows a supervised command's status, its restart history (when and why it ended each time) and the end of its current output", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          id: { type: "string", description: SUPERVISED_ID_DESCRIPTION },
+          lines: { type: "number", description: "Number of output lines to show (default: 20)" }
+        }, 
+        required: ["id"] 
+      },
+      handler: commands.getSupervised
+    },
+    { 
+      name: "iterm_stop_supervised", 
+      description: "Stops supervising a command so it is no longer restarted, and optionally stops the command itself with Control-C", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          id: { type: "string", description: SUPERVISED_ID_DESCRIPTION },
+          interrupt: { type: "boolean", description: "Also send Control-C to the running command (default: false)" }
+        }, 
+        required: ["id"] 
+      },
+      handler: commands.stopSupervised
+    },
+    { 
+      name: "iterm_workspace_up", 
+      description: "Brings up a workspace defined in a JSON or YAML file: opens its tabs and panes with their names, working directories and environment, and starts their commands, each only once the ones it depends on are ready. Tabs that already exist under their name are left as they are", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          file: { type: "string", description: WORKSPACE_FILE_DESCRIPTION },
+          confirm: { type: "boolean", description: CONFIRM_DESCRIPTION }
+        }, 
+        required: ["file"] 
+      },
+      handler: commands.workspaceUp
+    },
+    { 
+      name: "iterm_workspace_down", 
+      description: "Takes a workspace down: sends Ctrl-C to each of its tabs and panes that is still running something, dependents first, and closes them", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          file: { type: "string", description: WORKSPACE_FILE_DESCRIPTION },
+          grace: { type: "number", description: "Seconds to wait for each command to exit after Ctrl-C before closing anyway (default: 5)" }
+        }, 
+        required: ["file"] 
+      },
+      handler: commands.workspaceDown
+    },
+    { 
+      name: "iterm_save_layout", 
+      description: "Saves the open windows, tabs and panes with their names, working directories and last launched commands to a JSON snapshot file, for iterm_restore_layout", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          file: { type: "string", description: "Path of the snapshot file to write" },
+          window: { type: "number", description: "Only save this window (0-based; default: all windows)" }
+        }, 
+        required: ["file"] 
+      },
+      handler: commands.saveLayout
+    },
+    { 
+      name: "iterm_restore_layout", 
+      description: "Opens the windows, tabs and panes of a snapshot from iterm_save_layout in new windows, with their names and working directories. Names already in use are left off", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          file: { type: "string", description: "Path of the snapshot file" },
+          rerun: { type: "boolean", description: "Run each pane's last command again (default: false, only list them)" },
+          confirm: { type: "boolean", description: CONFIRM_DESCRIPTION }
+        }, 
+        required: ["file"] 
+      },
+      handler: commands.restoreLayout
+    },
+    { 
+      name: "iterm_control_code", 
+      description: "Sends a control code to a tab (e.g., Ctrl+C)", 
+      inputSchema: { 
+        type: "object", 
+        properties: { 
+          session: { type: "string", description: SESSION_DESCRIPTION },
+          name: { type: "string", description: NAME_DESCRIPTION },
+          tab: { type: "number", description: TAB_DESCRIPTION }, 
+          window: { type: "number", description: WINDOW_DESCRIPTION },
+          pane: { type: "number", description: PANE_DESCRIPTION },
+          letter: { type: "string", description: "The letter corresponding to the control character (e.g., 'C' for Control-C)" } 
+        }, 
+        required: ["letter"] 
+      },
+      handler: commands.sendControlCode
+    },
+      {
+          name: "iterm_get_all_tabs_info",
+          description: "Gets detailed information about all tabs including running state and tail content",
+          inputSchema: { 
+              type: "object", 
+              properties: {
+                  lines: { type: "number", description: "Number of lines to show for each tab (default: 20)" },
+                  window: { type: "number", description: "Only show tabs of this window index (default: all windows)" }
+              }, 
+              required: [] 
+          },
+          handler: commands.GetAllTabInfo
+      }
+  ];
+}
+
+// ==================================================
+// MCP Server Setup
+// ==================================================
+export interface ServerOptions {
+  // Which commands may be typed into sessions; without one only the built-in
+  // dangerous patterns need confirmation
+  policy?: PolicyConfig;
+  // Which sessions the server did not open it may write to
+  protection?: ProtectionConfig;
+  // Where every tool call is recorded, with what it typed
+  audit?: AuditLog;
+  // Which secrets to mask in what goes back to the client; false for none
+  redaction?: RedactionConfig | false;
+}
+
+// Masks secrets in the text of a tool response before it reaches the model,
+// saying how many were masked
+function redactResponse<T extends { content: { type: string, text?: string }[] }>(redactor: Redactor, response: T): T {
+  let masked = 0;
+  const content = response.content.map(item => {
+    if (item.text === undefined) {
+      return item;
+    }
+    const { text, count } = redactor.redact(item.text);
+    masked += count;
+    return { ...item, text };
+  });
+  if (masked > 0) {
+    const last = content[content.length - 1];
+    last.text = `${last.text!.trimEnd()}\n\n(Masked ${masked} ${masked === 1 ? "value that looks like a secret" : "values that look like secrets"}.)`;
+  }
+  return { ...response, content };
+}
+
+export function createServer(terminal: TerminalBackend, options: ServerOptions = {}): Server {
+  const { audit } = options;
+  const backend = audit ? audit.wrap(terminal) : terminal;
+  const redactor = createRedactor(options.redaction);
+  const jobs = createJobRegistry(backend);
+  const supervisor = createSupervisor(backend, jobs, audit);
+  const commands = createCommands(backend, jobs, supervisor, createCommandPolicy(options.policy), createWritableCheck(options.protection), redactor);
+  const tools = createTools(commands);
+
+  const server = new Server(
+    { name: "iterm-mcp", version: "0.2.0" },
+    { capabilities: { tools: {}, resources: { subscribe: true }, logging: {} } }
+  );
+
+  // Output of long waits is only sent as log messages once a client asks for them
+  let logLevel: LoggingLevel | undefined;
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logLevel = request.params.level;
+    return {};
+  });
+
+  // Tool listing handler
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      }))
+    };
+  });
+
+  // Tool execution handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      const tool = tools.find(t => t.name === request.params.name);
+    
+      if (!tool) {
+        return createResponse.error(`Unknown tool "${request.params.name}"`);
+      }
+    
+      const call = createCallContext(server, request.params._meta?.progressToken, logLevel, redactor, extra.signal);
+      const run = async () => redactResponse(redactor, await tool.handler(request.params.arguments, call));
+      return audit
+        ? await audit.track(tool.name, request.params.arguments, run, marker => jobs.list().find(job => job.marker === marker)?.exitCode)
+        : await run();
+    } catch (error: any) {
+      logMessage(`Error handling request: ${error}`);
+      return redactResponse(redactor, createResponse.error(error));
+    }
+  });
+
+  registerResources(server, backend, redactor);
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    jobs.close();
+    supervisor.close();
+    previousOnClose?.();
+  };
+
+  return server;
+}
@@ -0,0 +1,226 @@
+import type { AuditLog } from './audit.js';
+import type { TerminalBackend } from './backends/index.js';
+import type { Job, JobRegistry } from './jobs.js';
+import { extractMarkedContent, generateMarker, sendMarkedCommand } from './markers.js';
+import { createWatcher } from './watcher.js';
+
+// ==================================================
+// Supervised Commands
+// ==================================================
+
+// How often supervised commands are checked for an exit or a crash
+export const SUPERVISE_INTERVAL_MS = 1000;
+
+// Restart delays double each time up to this many seconds
+const MAX_BACKOFF_SECONDS = 60;
+
+// When a supervised command is started again: never, only after a non-zero
+// exit code or its crash pattern, or whenever it ends
+export type RestartPolicy = "never" | "on-failure" | "always";
+
+export interface SupervisionOptions {
+  restart: RestartPolicy;
+  maxRestarts: number;
+  // Seconds before the first restart; doubled for each one after it
+  backoff: number;
+  // Output that means the command crashed even though it keeps running, like a
+  // watcher printing "app crashed - waiting for file changes". It is stopped
+  // with Control-C and counts as a failure.
+  crashPattern?: string;
+}
+
+// One time the supervised command ended
+export interface RestartEvent {
+  at: Date;
+  jobId: string;
+  // e.g. "exited with code 1" or `printed "app crashed"`
+  reason: string;
+  // Seconds waited before starting it again; absent when it was not restarted
+  delay?: number;
+  restartedAs?: string;
+}
+
+// "running": its current job runs. "restarting": waiting out the backoff.
+// "stopped": ended and not restarted, by its policy or on request. "gave up":
+// max restarts reached. "lost": its session closed.
+export interface Supervised {
+  id: string;
+  command: string;
+  sessionId: string;
+  options: SupervisionOptions;
+  job: Job;
+  status: "running" | "restarting" | "stopped" | "gave up" | "lost";
+  // Why it is restarting or no longer running
+  statusDetail?: string;
+  startedAt: Date;
+  restarts: number;
+  history: RestartEvent[];
+}
+
+export interface Supervisor {
+  // Supervises a job that was just started
+  supervise(job: Job, options: SupervisionOptions): Supervised;
+  // Throws for unknown IDs
+  get(id: string): Supervised;
+  // All supervised commands, oldest first
+  list(): Supervised[];
+  // Ends supervision; the command itself is left alone
+  stop(id: string): Supervised;
+  // Called with the old and new job whenever a command is restarted
+  onRestart(listener: (previous: Job, next: Job) => void): void;
+  // Checks every supervised command once
+  refresh(): Promise<void>;
+  close(): void;
+}
+
+// Watches supervised jobs and starts them again in their session when they end,
+// according to their policy. What it types goes to the audit log, if given, as
+// background entries, since no tool call is running then.
+export function createSupervisor(backend: TerminalBackend, jobs: JobRegistry, audit?: AuditLog, intervalMs = SUPERVISE_INTERVAL_MS): Supervisor {
+  const supervised: Supervised[] = [];
+  const listeners: ((previous: Job, next: Job) => void)[] = [];
+  // When each restarting command is due, and which ones were sent Control-C for a crash
+  const restartAt = new Map<Supervised, number>();
+  const crashed = new Map<Supervised, string>();
+  let nextId = 1;
+
+  const recorded = (action: string, entry: Supervised, run: () => Promise<void>) =>
+    audit ? audit.record(`supervisor:${action}`, { supervised: entry.id, command: entry.command }, run) : run();
+
+  const isActive = (entry: Supervised) => entry.status === "running" || entry.status === "restarting";
+
+  const settle = (entry: Supervised, status: Supervised["status"], detail: string) => {
+    entry.status = status;
+    entry.statusDetail = detail;
+    restartAt.delete(entry);
+    crashed.delete(entry);
+  };
+
+  // Decides what happens after the current job ended
+  const ended = (entry: Supervised) => {
+    const { job, options } = entry;
+    const crash = crashed.get(entry);
+    crashed.delete(entry);
+    // Without the hooks nothing shows that a job stopped for a crash ended, so
+    // it is retired here rather than left running next to its restart
+    jobs.finish(job.id, "interrupted");
+    const failed = crash !== undefined || job.exitCode !== 0;
+    const reason = crash !== undefined ? `printed "${crash}"`
+      : job.status === "interrupted" ? "was interrupted" : `exited with code ${job.exitCode}`;
+    const event: RestartEvent = { at: job.endedAt ?? new Date(), jobId: job.id, reason };
+    entry.history.push(event);
+
+    if (options.restart === "never" || (options.restart === "on-failure" && !failed)) {
+      settle(entry, "stopped", `${reason} and restart is "${options.restart}"`);
+    } else if (entry.restarts >= options.maxRestarts) {
+      settle(entry, "gave up", `${reason} after ${entry.restarts} restarts`);
+    } else {
+      event.delay = Math.min(options.backoff * 2 ** entry.restarts, MAX_BACKOFF_SECONDS);
+      entry.status = "restarting";
+      entry.statusDetail = `${reason}, restarting after ${event.delay} seconds`;
+      restartAt.set(entry, Date.now() + event.delay * 1000);
+    }
+  };
+
+  const restart = async (entry: Supervised) => {
+    restartAt.delete(entry);
+    const marker = generateMarker();
+    try {
+      await recorded("restart", entry, () => sendMarkedCommand(backend, entry.sessionId, entry.command, marker));
+    } catch (error: any) {
+      settle(entry, "gave up", `could not restart it: ${error.message}`);
+      return;
+    }
+    const previous = entry.job;
+    entry.job = jobs.start(entry.sessionId, entry.command, marker);
+    entry.restarts++;
+    entry.status = "running";
+    entry.statusDetail = undefined;
+    entry.history[entry.history.length - 1].restartedAs = entry.job.id;
+    listeners.forEach(listener => listener(previous, entry.job));
+  };
+
+  const refresh = async () => {
+    await jobs.refresh();
+    const active = supervised.filter(isActive);
+    // Control-C also drops the rest of the marked command line, so a command
+    // stopped for a crash ends with its shell back at the prompt, not a marker
+    const idleSessions = active.some(entry => crashed.has(entry))
+      ? new Set((await backend.listSessions()).filter(s => !s.isRunning).map(s => s.id))
+      : new Set<string>();
+    for (const entry of active) {
+      const { job, options } = entry;
+      if (job.status === "lost") {
+        settle(entry, "lost", `session ${entry.sessionId} was closed`);
+        continue;
+      }
+      if (entry.status === "running" && (job.status !== "running" || (crashed.has(entry) && idleSessions.has(entry.sessionId)))) {
+        ended(entry);
+      }
+      if (entry.status === "restarting") {
+        if (Date.now() >= restartAt.get(entry)!) {
+          await restart(entry);
+        }
+      } else if (entry.status === "running" && options.crashPattern !== undefined && !crashed.has(entry)) {
+        const { content } = extractMarkedContent(await backend.readContents(entry.sessionId), job.marker);
+        if (content.includes(options.crashPattern)) {
+          crashed.set(entry, options.crashPattern);
+          await recorded("interrupt", entry, () => backend.sendKeys(entry.sessionId, "\x03"));
+        }
+      }
+    }
+  };
+
+  const watcher = createWatcher(refresh, () => supervised.some(isActive), intervalMs);
+
+  const get = (id: string) => {
+    const entry = supervised.find(s => s.id === id);
+    if (!entry) {
+      throw new Error(`Supervised command ${id} not found. Use iterm_list_supervised to see them.`);
+    }
+    return entry;
+  };
+
+  return {
+    supervise(job, options) {
+      const entry: Supervised = {
+        id: `sup-${nextId++}`,
+        command: job.command,
+        sessionId: job.sessionId,
+        options,
+        job,
+        status: "running",
+        startedAt: job.startedAt,
+        restarts: 0,
+        history: []
+      };
+      supervised.push(entry);
+      watcher.start();
+      return entry;
+    },
+
+    get,
+
+    list() {
+      return [...supervised];
+    },
+
+    stop(id) {
+      const entry = get(id);
+      if (isActive(entry)) {
+        settle(entry, "stopped", "on request");
+      }
+      return entry;
+    },
+
+    onRestart(listener) {
+      listeners.push(listener);
+    },
+
+    refresh,
+
+    close() {
+      watcher.close();
+    }
+  };
+}
@@ -0,0 +1,46 @@
+// ==================================================
+// Background Watching
+// ==================================================
+
+export interface Watcher {
+  // Starts checking unless it already does
+  start(): void;
+  close(): void;
+}
+
+// Runs check every intervalMs for as long as active() holds, without keeping
+// the process alive for it
+export function createWatcher(check: () => Promise<void>, active: () => boolean, intervalMs: number): Watcher {
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const watch = () => {
+    timer = undefined;
+    if (closed || !active()) {
+      return;
+    }
+    timer = setTimeout(async () => {
+      try {
+        await check();
+      } catch {
+        // The backend may be briefly unavailable; try again next time
+      }
+      watch();
+    }, intervalMs);
+    timer.unref();
+  };
+
+  return {
+    start() {
+      if (!timer) {
+        watch();
+      }
+    },
+
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+}
@@ -0,0 +1,254 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parse } from 'yaml';
+import type { SplitDirection } from './backends/index.js';
+import { fail, isObject, readOptionalString } from './definitions.js';
+import { probeProblem } from './probe.js';
+
+// ==================================================
+// Workspace Files
+// ==================================================
+
+// When a tab or pane counts as up. Without one it is up as soon as its command
+// was sent; with several parts, all of them must pass.
+export interface ReadinessCheck {
+  // Text (or a regular expression with regex: true) its output must show
+  pattern?: string;
+  regex: boolean;
+  // A local TCP port that must accept connections, or a URL that must answer
+  // (with the given status, by default any below 400)
+  port?: number;
+  url?: string;
+  status?: number;
+  // Seconds to wait for it (default: 60)
+  timeout: number;
+}
+
+// A tab or pane of the workspace with what to start in it
+export interface WorkspaceProcess {
+  name: string;
+  cwd?: string;
+  env: Record<string, string>;
+  command?: string;
+  ready?: ReadinessCheck;
+  // Names of processes that must be ready before this one starts
+  dependsOn: string[];
+  // For panes: the tab they split and which way
+  tab?: string;
+  direction?: SplitDirection;
+}
+
+export interface Workspace {
+  name: string;
+  // In start order: each one after the ones it depends on
+  processes: WorkspaceProcess[];
+}
+
+const DEFAULT_READY_TIMEOUT = 60;
+
+// The yaml package quotes the offending lines after a colon; the first line
+// says what is wrong and where
+function parseYaml(text: string): any {
+  try {
+    return parse(text);
+  } catch (error: any) {
+    throw new Error(`invalid YAML: ${error.message.split("\n")[0].replace(/:$/, "")}`);
+  }
+}
+
+// Reads a JSON or YAML file, going by its extension and trying both otherwise
+function readDefinition(filePath: string): any {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".json") {
+    return JSON.parse(text);
+  }
+  if (extension === ".yaml" || extension === ".yml") {
+    return parseYaml(text);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return parseYaml(text);
+  }
+}
+
+function resolveCwd(cwd: string, baseDir: string): string {
+  if (cwd === "~" || cwd.startsWith("~/")) {
+    return path.join(os.homedir(), cwd.substring(1));
+  }
+  return path.resolve(baseDir, cwd);
+}
+
+// Orders processes so each comes after its dependencies, keeping the file order otherwise
+function startOrder(processes: WorkspaceProcess[]): WorkspaceProcess[] {
+  const byName = new Map(processes.map(p => [p.name, p]));
+  const ordered: WorkspaceProcess[] = [];
+  const visiting: string[] = [];
+
+  const visit = (entry: WorkspaceProcess) => {
+    if (ordered.includes(entry)) {
+      return;
+    }
+    if (visiting.includes(entry.name)) {
+      const cycle = [...visiting.slice(visiting.indexOf(entry.name)), entry.name];
+      throw new Error(`dependency cycle ${cycle.join(" -> ")}`);
+    }
+    visiting.push(entry.name);
+    for (const dependency of [...(entry.tab ? [entry.tab] : []), ...entry.dependsOn]) {
+      visit(byName.get(dependency)!);
+    }
+    visiting.pop();
+    ordered.push(entry);
+  };
+
+  processes.forEach(visit);
+  return ordered;
+}
+
+// Loads and checks a workspace definition:
+//
+//   { "name": "shop", "cwd": "~/src/shop", "env": { "NODE_ENV": "development" },
+//     "tabs": [
+//       { "name": "db", "command": "docker compose up db", "ready": { "pattern": "ready to accept connections" } },
+//       { "name": "api", "cwd": "api", "command": "npm run dev", "dependsOn": ["db"], "ready": { "port": 3000 },
+//         "panes": [{ "name": "worker", "command": "npm run worker", "direction": "horizontal" }] }
+//     ] }
+//
+// Relative working directories are taken from the file's directory (or the
+// workspace cwd), and env is merged from the workspace down to each tab and pane.
+export function loadWorkspace(filePath: string): Workspace {
+  const definition = readDefinition(filePath);
+  if (!isObject(definition)) {
+    fail("the file must contain an object with a tabs list");
+  }
+
+  const readEnv = (value: any, where: string) => {
+    if (value === undefined) {
+      return {};
+    }
+    if (!isObject(value)) {
+      fail(`${where} must be an object of variable names to values`);
+    }
+    const env: Record<string, string> = {};
+    for (const [name, setting] of Object.entries(value)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        fail(`${where} has an invalid variable name "${name}"`);
+      }
+      if (!['string', 'number', 'boolean'].includes(typeof setting)) {
+        fail(`${where}.${name} must be a string, number or boolean`);
+      }
+      env[name] = String(setting);
+    }
+    return env;
+  };
+  const readReady = (value: any, where: string): ReadinessCheck | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const ready = typeof value === 'string' ? { pattern: value } : typeof value === 'number' ? { port: value } : value;
+    if (!isObject(ready)) {
+      fail(`${where} must be a pattern, a port or an object with a pattern, port or url`);
+    }
+    const pattern = readOptionalString(ready.pattern, `${where}.pattern`);
+    if (pattern === undefined && ready.port === undefined && ready.url === undefined) {
+      fail(`${where} needs a pattern, port or url`);
+    }
+    if (ready.regex !== undefined && typeof ready.regex !== 'boolean') {
+      fail(`${where}.regex must be true or false`);
+    }
+    if (ready.regex && pattern !== undefined) {
+      try {
+        new RegExp(pattern);
+      } catch (error: any) {
+        fail(`${where}.pattern is not a valid regular expression: ${error.message}`);
+      }
+    }
+    if (ready.port !== undefined || ready.url !== undefined || ready.status !== undefined) {
+      const problem = probeProblem(ready, `${where}.`);
+      if (problem) {
+        fail(problem);
+      }
+    }
+    const timeout = ready.timeout ?? DEFAULT_READY_TIMEOUT;
+    if (typeof timeout !== 'number' || timeout <= 0) {
+      fail(`${where}.timeout must be a positive number of seconds`);
+    }
+    return {
+      ...(pattern !== undefined ? { pattern } : {}),
+      regex: ready.regex ?? false,
+      ...(ready.port !== undefined ? { port: ready.port } : {}),
+      ...(ready.url !== undefined ? { url: ready.url } : {}),
+      ...(ready.status !== undefined ? { status: ready.status } : {}),
+      timeout
+    };
+  };
+
+  const baseDir = path.dirname(path.resolve(filePath));
+  const workspaceCwd = readOptionalString(definition.cwd, "cwd");
+  const rootDir = workspaceCwd ? resolveCwd(workspaceCwd, baseDir) : undefined;
+  const workspaceEnv = readEnv(definition.env, "env");
+
+  const readProcess = (value: any, where: string, tab?: WorkspaceProcess): WorkspaceProcess => {
+    if (!isObject(value)) {
+      fail(`${where} must be an object`);
+    }
+    const name = readOptionalString(value.name, `${where}.name`) ?? fail(`${where}.name is required`);
+    const cwd = readOptionalString(value.cwd, `${where}.cwd`);
+    const dependsOn = value.dependsOn ?? [];
+    if (!Array.isArray(dependsOn) || dependsOn.some(d => typeof d !== 'string')) {
+      fail(`${where}.dependsOn must be a list of tab or pane names`);
+    }
+    if (tab === undefined && value.direction !== undefined) {
+      fail(`${where}.direction only applies to panes`);
+    }
+    if (value.direction !== undefined && value.direction !== "horizontal" && value.direction !== "vertical") {
+      fail(`${where}.direction must be "horizontal" or "vertical"`);
+    }
+    const parentDir = tab?.cwd ?? rootDir ?? baseDir;
+    return {
+      name,
+      cwd: cwd ? resolveCwd(cwd, parentDir) : (tab?.cwd ?? rootDir),
+      env: { ...(tab ? tab.env : workspaceEnv), ...readEnv(value.env, `${where}.env`) },
+      command: readOptionalString(value.command, `${where}.command`),
+      ready: readReady(value.ready, `${where}.ready`),
+      dependsOn,
+      tab: tab?.name,
+      direction: tab ? (value.direction ?? "vertical") : undefined
+    };
+  };
+
+  if (!Array.isArray(definition.tabs) || definition.tabs.length === 0) {
+    fail("tabs must be a non-empty list");
+  }
+  const processes: WorkspaceProcess[] = [];
+  definition.tabs.forEach((tabDefinition: any, index: number) => {
+    const tab = readProcess(tabDefinition, `tabs[${index}]`);
+    processes.push(tab);
+    const panes = tabDefinition.panes ?? [];
+    if (!Array.isArray(panes)) {
+      fail(`tabs[${index}].panes must be a list`);
+    }
+    panes.forEach((pane: any, paneIndex: number) => processes.push(readProcess(pane, `tabs[${index}].panes[${paneIndex}]`, tab)));
+  });
+
+  const names = new Set<string>();
+  for (const entry of processes) {
+    if (names.has(entry.name)) {
+      fail(`the name "${entry.name}" is used more than once`);
+    }
+    names.add(entry.name);
+  }
+  for (const entry of processes) {
+    const unknown = entry.dependsOn.find(name => !names.has(name));
+    if (unknown) {
+      fail(`"${entry.name}" depends on "${unknown}", which is not in the workspace`);
+    }
+  }
+
+  return {
+    name: readOptionalString(definition.name, "name") ?? path.basename(filePath, path.extname(filePath)),
+    processes: startOrder(processes)
+  };
+}
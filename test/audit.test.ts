@@ -0,0 +1,152 @@
+import { describe, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createAuditLog, readAuditLog } from '../src/audit.js';
+import { createFakeBackend } from '../src/backends/fake.js';
+import { replayAuditLog } from '../src/replay.js';
+import { connect } from './helpers.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-iterm-audit-"));
+  file = path.join(dir, "audit.jsonl");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("audit log", () => {
+  test("records each tool call with what it typed", async () => {
+    const backend = createFakeBackend({ initialSessions: ["zsh"], responder: () => ({ output: "ok", exitCode: 3 }) });
+    const mcp = await connect(backend, { audit: createAuditLog({ file }) });
+    try {
+      await mcp.call("iterm_run_command_blocking", { tab: 0, command: "make test", wait: 1 });
+      await mcp.call("iterm_control_code", { tab: 0, letter: "c" });
+      await mcp.call("iterm_list_windows");
+    } finally {
+      await mcp.close();
+    }
+
+    const [run, control, list] = readAuditLog(file);
+    assert.equal(run.tool, "iterm_run_command_blocking");
+    assert.deepEqual(run.args, { tab: 0, command: "make test", wait: 1 });
+    assert.equal(run.session, "fake-1");
+    assert.match(run.marker!, /^===[0-9a-f]{8}-\d+===$/);
+    assert.equal(run.input[0].text, `echo "${run.marker}-START"; make test; RESULT=$?; echo "${run.marker}-END:$RESULT"`);
+    assert.equal(run.exitCode, 3);
+    assert.ok(run.resultSize > 0 && run.durationMs >= 0);
+    assert.match(run.timestamp, /^\d{4}-\d\d-\d\dT/);
+    assert.deepEqual(control.input, [{ session: "fake-1", text: "\x03" }]);
+    assert.deepEqual(list.input, []);
+    assert.equal(list.session, undefined);
+  });
+
+  test("rotates once the file would grow past its maximum size", async () => {
+    const audit = createAuditLog({ file, maxSize: 250, keep: 2 });
+    const call = (n: number) => audit.track("iterm_list_windows", { n }, async () => ({ content: [{ text: "x" }] }));
+    for (let n = 1; n <= 7; n++) {
+      await call(n);
+    }
+
+    assert.deepEqual(fs.readdirSync(dir).sort(), ["audit.jsonl", "audit.jsonl.1", "audit.jsonl.2"]);
+    assert.deepEqual(readAuditLog(file).map(entry => entry.args.n), [7]);
+    assert.deepEqual(readAuditLog(`${file}.1`).map(entry => entry.args.n), [5, 6]);
+  });
+
+  test("is replayed against a backend", async () => {
+    fs.writeFileSync(file, [
+      { timestamp: "2026-10-18T09:00:00.000Z", tool: "iterm_new_tab", args: { name: "build" }, input: [], durationMs: 5, resultSize: 60 },
+      { timestamp: "2026-10-18T09:00:01.000Z", tool: "iterm_run_command_async", args: { name: "build", command: "make" }, session: "fake-7", input: [{ session: "fake-7", text: "make" }], exitCode: 2, durationMs: 5, resultSize: 40 }
+    ].map(entry => JSON.stringify(entry)).join("\n"));
+    const backend = createFakeBackend({ initialSessions: ["zsh"] });
+    const printed: string[] = [];
+
+    await replayAuditLog(file, backend, {}, { dryRun: true }, line => printed.push(line));
+    assert.deepEqual(printed, [
+      '[1/2] 2026-10-18T09:00:00.000Z iterm_new_tab {"name":"build"}',
+      '[2/2] 2026-10-18T09:00:01.000Z iterm_run_command_async {"name":"build","command":"make"} (session fake-7, exit code 2)',
+      '  typed into fake-7: "make"'
+    ]);
+    assert.equal((await backend.listSessions()).length, 1);
+
+    printed.length = 0;
+    await replayAuditLog(file, backend, {}, {}, line => printed.push(line));
+    assert.match(printed[1], /^  New tab created successfully \(window 0, tab 1, session fake-2\)\.$/);
+    assert.match(printed[3], /^  Command "make" sent to tab "build" as job-1\.$/);
+    assert.match(backend.written(1)[0], /; make; RESULT=/);
+  });
+
+  test("masks secrets in what it records", async () => {
+    const backend = createFakeBackend({ initialSessions: ["zsh"] });
+    const mcp = await connect(backend, { audit: createAuditLog({ file }) });
+    try {
+      await mcp.call("iterm_run_command_async", { tab: 0, command: "curl -u admin --password=hunter2 https://example.com" });
+    } finally {
+      await mcp.close();
+    }
+
+    const [entry] = readAuditLog(file);
+    assert.equal(entry.args.command, "curl -u admin --password=[REDACTED:password] https://example.com");
+    assert.match(entry.input[0].text, /; curl -u admin --password=\[REDACTED:password\] https:\/\/example\.com; /);
+    assert.equal(entry.redacted, 2);
+    assert.doesNotMatch(fs.readFileSync(file, 'utf8'), /hunter2/);
+  });
+
+  test("records what the supervisor types as background entries", async () => {
+    const backend = createFakeBackend({ initialSessions: ["zsh"], responder: () => ({ output: "app crashed", hang: true }) });
+    const mcp = await connect(backend, { audit: createAuditLog({ file }) });
+    try {
+      await mcp.call("iterm_run_command_async", { tab: 0, command: "nodemon app.js", supervise: { backoff: 0, crashPattern: "app crashed" } });
+      await mcp.call("iterm_list_supervised");
+      await mcp.call("iterm_list_supervised");
+    } finally {
+      await mcp.close();
+    }
+
+    const entries = readAuditLog(file);
+    assert.deepEqual(entries.map(entry => [entry.tool, entry.background]), [
+      ["iterm_run_command_async", undefined],
+      ["supervisor:interrupt", true],
+      ["iterm_list_supervised", undefined],
+      ["supervisor:restart", true],
+      ["iterm_list_supervised", undefined]
+    ]);
+    assert.deepEqual(entries[1].args, { supervised: "sup-1", command: "nodemon app.js" });
+    assert.deepEqual(entries[1].input, [{ session: "fake-1", text: "\x03" }]);
+    assert.match(entries[3].input[0].text, /; nodemon app\.js; RESULT=/);
+    assert.deepEqual(entries[4].input, []);
+  });
+
+  test("skips background entries and entries with masked secrets when replayed", async () => {
+    fs.writeFileSync(file, [
+      { timestamp: "2026-10-18T09:00:00.000Z", tool: "iterm_run_command_async", args: { tab: 0, command: "login --password=[REDACTED:password]" }, input: [], durationMs: 5, resultSize: 40, redacted: 2 },
+      { timestamp: "2026-10-18T09:00:01.000Z", tool: "supervisor:restart", args: { supervised: "sup-1", command: "make" }, input: [], durationMs: 5, resultSize: 0, background: true },
+      { timestamp: "2026-10-18T09:00:02.000Z", tool: "iterm_run_command_async", args: { tab: 0, command: "make" }, input: [], durationMs: 5, resultSize: 40 }
+    ].map(entry => JSON.stringify(entry)).join("\n"));
+    const backend = createFakeBackend({ initialSessions: ["zsh"] });
+    const printed: string[] = [];
+
+    await replayAuditLog(file, backend, {}, { dryRun: true }, line => printed.push(line));
+    assert.deepEqual(printed.filter(line => line.includes("skipped")), [
+      "  would be skipped: 2 secrets were masked in it",
+      "  would be skipped: the server typed this on its own, not a tool call"
+    ]);
+
+    printed.length = 0;
+    await replayAuditLog(file, backend, {}, {}, line => printed.push(line));
+    assert.equal(printed[1], "  Skipped: 2 secrets were masked in it.");
+    assert.equal(printed[3], "  Skipped: the server typed this on its own, not a tool call.");
+    assert.match(printed[5], /^  Command "make" sent to tab 0/);
+    assert.equal(backend.written(0).length, 1);
+  });
+
+  test("rejects lines that are not entries", () => {
+    fs.writeFileSync(file, '{"tool":"iterm_list_windows"}\nnot json\n');
+    assert.throws(() => readAuditLog(file), { message: /^line 2 is not valid JSON: / });
+  });
+});
@@ -0,0 +1,27 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { TerminalBackend } from '../src/backends/index.js';
+import { createServer, ServerOptions } from '../src/server.js';
+
+// Connects an in-process MCP client to a server running on the given backend
+export async function connect(backend: TerminalBackend, options: ServerOptions = {}) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = createServer(backend, options);
+  const client = new Client({ name: "mcp-iterm-test", version: "0.0.0" }, { capabilities: {} });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return {
+    client,
+
+    // Calls a tool and returns the text of its single content item
+    async call(name: string, args: Record<string, unknown> = {}): Promise<string> {
+      const result: any = await client.callTool({ name, arguments: args });
+      return result.content[0].text;
+    },
+
+    async close() {
+      await client.close();
+      await server.close();
+    }
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCommandPolicy } from '../src/policy.js';
+
+describe("createCommandPolicy", () => {
+  test("asks to confirm dangerous commands by default", () => {
+    const policy = createCommandPolicy();
+
+    assert.deepEqual(policy.check("cd /tmp && rm -rf /", {}), { action: "confirm", reason: "it looks dangerous (recursive delete of / or the home directory)" });
+    assert.deepEqual(policy.check("git push --force origin main", {}), { action: "confirm", reason: "it looks dangerous (force push)" });
+    assert.equal(policy.check('psql -c "DROP TABLE users"', {}).action, "confirm");
+    assert.equal(policy.check("rm -rf ./build", {}).action, "allow");
+    assert.equal(policy.check("git push origin main", {}).action, "allow");
+  });
+
+  test("can deny or allow the dangerous patterns", () => {
+    assert.equal(createCommandPolicy({ dangerous: "deny" }).check("mkfs.ext4 /dev/sdb1", {}).action, "deny");
+    assert.equal(createCommandPolicy({ dangerous: "allow" }).check("mkfs.ext4 /dev/sdb1", {}).action, "allow");
+  });
+
+  test("matches globs against each part of a command and regular expressions anywhere", () => {
+    const policy = createCommandPolicy({ deny: ["sudo *", "/\\bcurl\\b.*\\|/"], confirm: ["npm publish*"] });
+
+    assert.deepEqual(policy.check("ls && sudo reboot now", {}), { action: "deny", reason: 'it matches the deny rule "sudo *"' });
+    assert.equal(policy.check("curl -s https://example.com | jq .", {}).action, "deny");
+    assert.equal(policy.check("echo sudo", {}).action, "allow");
+    assert.deepEqual(policy.check("npm publish --access public", {}), { action: "confirm", reason: 'it matches the confirm rule "npm publish*"' });
+  });
+
+  test("denies parts that are not on the allow list", () => {
+    const policy = createCommandPolicy({ allow: ["npm *", "git status", "/^ls\\b/"] });
+
+    assert.equal(policy.check("git status; npm test", {}).action, "allow");
+    assert.equal(policy.check("ls -la", {}).action, "allow");
+    assert.deepEqual(policy.check("npm test && make", {}), { action: "deny", reason: '"make" is not on the allow list' });
+  });
+
+  test("adds the rules of the session by tab name or session ID", () => {
+    const policy = createCommandPolicy({ sessions: { prod: { allow: ["tail *", "uptime"] }, "%3": { deny: ["*"] } } });
+
+    assert.deepEqual(policy.check("systemctl restart api", { id: "%1", name: "prod" }), { action: "deny", reason: '"systemctl restart api" is not on the allow list for "prod"' });
+    assert.equal(policy.check("tail -f /var/log/syslog", { id: "%1", name: "prod" }).action, "allow");
+    assert.equal(policy.check("ls", { id: "%3", name: "scratch" }).action, "deny");
+    assert.equal(policy.check("systemctl restart api", { id: "%2", name: "dev" }).action, "allow");
+  });
+
+  test("rejects malformed rules", () => {
+    assert.throws(() => createCommandPolicy({ deny: ["/(/"] }), { message: /^policy\.deny\[0\] is not a valid regular expression: / });
+    assert.throws(() => createCommandPolicy({ sessions: { prod: { allow: "ls" as any } } }), { message: "policy.sessions.prod.allow must be a list of patterns" });
+    assert.throws(() => createCommandPolicy({ dangerous: "ask" as any }), { message: 'policy.dangerous must be "confirm", "deny" or "allow"' });
+  });
+});
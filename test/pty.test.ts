@@ -0,0 +1,23 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createPtyBackend } from '../src/backends/pty.js';
+
+describe("pty backend", () => {
+  test("tries again after its first shell failed to start", async () => {
+    const dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-iterm-pty-")), "later");
+    const backend = createPtyBackend({ shell: "/bin/sh", cwd: dir });
+    try {
+      await assert.rejects(backend.listSessions());
+
+      fs.mkdirSync(dir);
+      const [session] = await backend.listSessions();
+      assert.equal(session.cwd, dir);
+      await backend.closeSession(session.id);
+    } finally {
+      fs.rmSync(path.dirname(dir), { recursive: true, force: true });
+    }
+  });
+});
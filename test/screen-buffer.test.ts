@@ -0,0 +1,63 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createScreenBuffer, endsWithPrompt } from '../src/backends/screen-buffer.js';
+
+describe("createScreenBuffer", () => {
+  test("strips colors and cursor movement", () => {
+    const buffer = createScreenBuffer();
+    buffer.write("\x1b[1;32mok\x1b[0m done\r\n\x1b[2K\x1b(B$ ");
+
+    assert.equal(buffer.contents(), "ok done\n$ ");
+  });
+
+  test("overwrites the current line on carriage returns and backspaces", () => {
+    const buffer = createScreenBuffer();
+    buffer.write("progress 10%\rprogress 100%\nab\bc\tx\n");
+
+    assert.equal(buffer.contents(), "progress 100%\nac      x\n");
+  });
+
+  test("keeps only the last lines", () => {
+    const buffer = createScreenBuffer(2);
+    buffer.write("one\ntwo\nthree\nfour");
+
+    assert.equal(buffer.contents(), "two\nthree\nfour");
+  });
+
+  test("holds back escape sequences split across chunks", () => {
+    const payloads: string[] = [];
+    const buffer = createScreenBuffer(100, payload => payloads.push(payload));
+    buffer.write("red \x1b[3");
+    buffer.write("1mtext\x1b]633;E;npm ");
+    buffer.write("test\x07");
+
+    assert.equal(buffer.contents(), "red text");
+    assert.deepEqual(payloads, ["633;E;npm test"]);
+  });
+
+  test("reports OSC payloads after the text before them", () => {
+    const seen: [string, string][] = [];
+    const buffer = createScreenBuffer(100, payload => seen.push([payload, buffer.contents()]));
+    buffer.write("$ \x1b]133;C\x07ls\n\x1b]133;D;0\x1b\\\x1b]7;file://host/tmp\x07");
+
+    assert.deepEqual(seen, [["133;C", "$ "], ["133;D;0", "$ ls\n"], ["7;file://host/tmp", "$ ls\n"]]);
+    assert.equal(buffer.contents(), "$ ls\n");
+  });
+
+  test("can be cleared", () => {
+    const buffer = createScreenBuffer();
+    buffer.write("script\n$ ");
+    buffer.clear();
+    buffer.write("$ ");
+
+    assert.equal(buffer.contents(), "$ ");
+  });
+});
+
+describe("endsWithPrompt", () => {
+  test("looks at the last non-blank line", () => {
+    assert.equal(endsWithPrompt("output\nuser@host:~$ \n\n"), true);
+    assert.equal(endsWithPrompt("root@container:/app# "), true);
+    assert.equal(endsWithPrompt("compiling..."), false);
+  });
+});
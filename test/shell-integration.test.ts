@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyOsc, commandStateFrom, cwdFromOsc } from '../src/backends/shell-integration.js';
+
+describe("applyOsc", () => {
+  test("follows a command from its start to the next prompt", () => {
+    let state = applyOsc(undefined, "133;A");
+    assert.deepEqual(state, { status: "idle" });
+
+    state = applyOsc(state, "633;E;make test");
+    state = applyOsc(state, "133;C");
+    assert.deepEqual(state, { status: "running", command: "make test" });
+
+    state = applyOsc(state, "133;D;2");
+    state = applyOsc(state, "133;A");
+    assert.deepEqual(state, { status: "idle", command: "make test", exitCode: 2 });
+  });
+
+  test("keeps semicolons in the command line", () => {
+    assert.deepEqual(applyOsc({ status: "idle" }, "633;E;cd /tmp; ls"), { status: "idle", command: "cd /tmp; ls" });
+  });
+
+  test("ignores unrelated sequences", () => {
+    const state = { status: "running" as const, command: "vim" };
+    assert.equal(applyOsc(state, "0;window title"), state);
+    assert.equal(applyOsc(undefined, "1337;SetUserVar=x=eQ=="), undefined);
+  });
+});
+
+describe("cwdFromOsc", () => {
+  test("reads the path of an OSC 7 payload", () => {
+    assert.equal(cwdFromOsc("7;file://build-box/home/dev/my app"), "/home/dev/my app");
+    assert.equal(cwdFromOsc("7;file:///tmp"), "/tmp");
+    assert.equal(cwdFromOsc("133;A"), undefined);
+  });
+});
+
+describe("commandStateFrom", () => {
+  test("builds a state from reported values", () => {
+    assert.deepEqual(commandStateFrom("running", "", "npm start"), { status: "running", exitCode: undefined, command: "npm start" });
+    assert.deepEqual(commandStateFrom("idle", "1", ""), { status: "idle", exitCode: 1, command: undefined });
+    assert.equal(commandStateFrom("", "", ""), undefined);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePaneLine } from '../src/backends/tmux.js';
+
+describe("parsePaneLine", () => {
+  test("reads a pane the prompt hooks report on", () => {
+    assert.deepEqual(parsePaneLine("mcp-iterm:0:1:%3:1:200:50:zsh:idle:2:bWFrZSB0ZXN0:1:4:build:/tmp"), {
+      tmuxSession: "mcp-iterm",
+      windowIndex: 0,
+      paneIndex: 1,
+      paneId: "%3",
+      active: true,
+      columns: 200,
+      rows: 50,
+      name: "build",
+      cwd: "/tmp",
+      command: "zsh",
+      opened: true,
+      commandState: { status: "idle", exitCode: 2, command: "make test" }
+    });
+  });
+
+  test("tells the name from the directory by its length in bytes, colons and all", () => {
+    const pane = parsePaneLine("mcp-iterm-2:3:0:%12:0:80:24:node:::::10:api: dev ✓:/home/ä:b");
+
+    assert.equal(pane.name, "api: dev ✓");
+    assert.equal(pane.cwd, "/home/ä:b");
+    assert.equal(pane.commandState, undefined);
+    assert.equal(pane.opened, false);
+  });
+
+  test("leaves the directory out when tmux does not know it", () => {
+    const pane = parsePaneLine("work:0:0:%1:1:80:24:bash:::::0:my:tab:");
+
+    assert.equal(pane.name, "my:tab");
+    assert.equal(pane.cwd, undefined);
+  });
+});
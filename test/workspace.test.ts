@@ -0,0 +1,97 @@
+import { describe, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { loadWorkspace } from '../src/workspace.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-iterm-workspace-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const write = (name: string, text: string) => {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, text);
+  return file;
+};
+
+describe("loadWorkspace", () => {
+  test("reads YAML with panes, merged env and relative working directories", () => {
+    const file = write("shop.yaml", `
+name: shop
+cwd: src   # relative to this file
+env:
+  NODE_ENV: development
+tabs:
+  - name: web
+    cwd: web
+    command: npm run dev
+    env: { PORT: 3000 }
+    dependsOn: [api]
+    panes:
+      - name: tests
+        direction: horizontal
+        command: npm test -- --watch
+  - name: api
+    command: npm run api
+    ready:
+      pattern: "listening on :\\\\d+"
+      regex: true
+`);
+
+    const workspace = loadWorkspace(file);
+
+    assert.equal(workspace.name, "shop");
+    assert.deepEqual(workspace.processes.map(p => p.name), ["api", "web", "tests"]);
+    const [api, web, tests] = workspace.processes;
+    assert.deepEqual(api.ready, { pattern: "listening on :\\d+", regex: true, timeout: 60 });
+    assert.equal(api.cwd, path.join(dir, "src"));
+    assert.deepEqual(web.env, { NODE_ENV: "development", PORT: "3000" });
+    assert.equal(tests.cwd, path.join(dir, "src", "web"));
+    assert.deepEqual(tests.env, web.env);
+    assert.equal(tests.tab, "web");
+    assert.equal(tests.direction, "horizontal");
+  });
+
+  test("takes a port as a readiness check", () => {
+    const workspace = loadWorkspace(write("web.json", '{ "tabs": [{ "name": "web", "ready": 3000 }, { "name": "api", "ready": { "url": "http://localhost:4000/health", "status": 204 } }] }'));
+
+    assert.deepEqual(workspace.processes.map(p => p.ready), [
+      { regex: false, port: 3000, timeout: 60 },
+      { regex: false, url: "http://localhost:4000/health", status: 204, timeout: 60 }
+    ]);
+  });
+
+  test("says where a YAML file is invalid", () => {
+    assert.throws(() => loadWorkspace(write("bad.yaml", "tabs:\n  - name: a\n  - name: b\n    name: c\n")), {
+      message: "invalid YAML: Map keys must be unique at line 4, column 5"
+    });
+  });
+
+  test("names the workspace after its file by default", () => {
+    assert.equal(loadWorkspace(write("backend.json", '{ "tabs": [{ "name": "api" }] }')).name, "backend");
+  });
+
+  test("rejects invalid definitions", () => {
+    const cases: [string, string][] = [
+      ['{ "tabs": [] }', "tabs must be a non-empty list"],
+      ['{ "tabs": [{ "command": "ls" }] }', "tabs[0].name is required"],
+      ['{ "tabs": [{ "name": "a" }, { "name": "b", "panes": [{ "name": "a" }] }] }', 'the name "a" is used more than once'],
+      ['{ "tabs": [{ "name": "a", "dependsOn": ["db"] }] }', '"a" depends on "db", which is not in the workspace'],
+      ['{ "tabs": [{ "name": "a", "direction": "vertical" }] }', "tabs[0].direction only applies to panes"],
+      ['{ "tabs": [{ "name": "a", "ready": { "timeout": 5 } }] }', "tabs[0].ready needs a pattern, port or url"],
+      ['{ "tabs": [{ "name": "a", "ready": { "port": 70000 } }] }', "tabs[0].ready.port must be an integer from 1 to 65535, got 70000"],
+      ['{ "tabs": [{ "name": "a", "ready": { "url": "ftp://x" } }] }', 'tabs[0].ready.url must be an http:// or https:// URL, got "ftp://x"'],
+      ['{ "tabs": [{ "name": "a", "env": { "1X": "y" } }] }', 'tabs[0].env has an invalid variable name "1X"']
+    ];
+    for (const [definition, message] of cases) {
+      assert.throws(() => loadWorkspace(write("bad.json", definition)), { message });
+    }
+  });
+});